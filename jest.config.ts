@@ -2,7 +2,11 @@ import type { Config } from 'jest'
 
 const config: Config = {
   testEnvironment: 'node',
-  transform: { '^.+\\.tsx?$': ['ts-jest', {}] },
+  // Sources are ES modules with NodeNext `.js` imports; tests run them as CommonJS
+  transform: {
+    '^.+\\.tsx?$': ['ts-jest', { tsconfig: { module: 'commonjs', moduleResolution: 'node', esModuleInterop: true } }],
+  },
+  moduleNameMapper: { '^(\\.{1,2}/.*)\\.js$': '$1' },
   collectCoverage: true,
   collectCoverageFrom: ['src/**/*.ts', '!src/**/*.test.ts', '!src/main.ts'],
   coverageDirectory: 'coverage',
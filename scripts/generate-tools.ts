@@ -0,0 +1,387 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { fileURLToPath } from 'url'
+import prettier from 'prettier'
+
+// Generates src/tools.generated.ts and the README tool list from the vendored HH OpenAPI document.
+// Run `npm run generate` after updating openapi/hh.openapi.json; `npm run generate -- --check` fails on drift.
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..')
+const specPath = path.join(root, 'openapi', 'hh.openapi.json')
+const outputPath = path.join(root, 'src', 'tools.generated.ts')
+const readmePath = path.join(root, 'README.md')
+
+interface SchemaObject {
+  $ref?: string
+  type?: string
+  format?: string
+  enum?: string[]
+  items?: SchemaObject
+  properties?: Record<string, SchemaObject>
+  required?: string[]
+  minItems?: number
+  minimum?: number
+  maximum?: number
+  nullable?: boolean
+  description?: string
+}
+
+interface ParameterObject {
+  $ref?: string
+  name: string
+  in: 'path' | 'query' | 'header' | 'cookie'
+  required?: boolean
+  description?: string
+  schema: SchemaObject
+}
+
+interface OperationObject {
+  operationId: string
+  summary?: string
+  description?: string
+  tags?: string[]
+  'x-hh-roles'?: string[]
+  'x-hh-max-depth'?: number
+  // Seconds reference data may be served from the dictionary cache
+  'x-hh-cache-ttl'?: number
+  'x-hh-projection'?: { omit?: string[]; summary?: string[] }
+  parameters?: ParameterObject[]
+  requestBody?: {
+    description?: string
+    required?: boolean
+    content: Record<string, { schema: SchemaObject }>
+  }
+  responses?: Record<string, { content?: Record<string, { schema: SchemaObject }> }>
+}
+
+interface OpenApiDocument {
+  tags?: { name: string }[]
+  paths: Record<string, Record<string, OperationObject>>
+  components?: { schemas?: Record<string, SchemaObject> }
+}
+
+const methods = ['get', 'post', 'put', 'delete']
+
+const bodyEncodings: Record<string, string> = {
+  'application/json': 'json',
+  'application/x-www-form-urlencoded': 'form',
+  'multipart/form-data': 'multipart',
+}
+
+function resolve<T extends { $ref?: string }>(spec: OpenApiDocument, value: T): T {
+  if (!value.$ref) {
+    return value
+  }
+  // Local references only, e.g. #/components/schemas/Vacancy
+  const target = value.$ref
+    .replace(/^#\//, '')
+    .split('/')
+    .reduce<unknown>((node, key) => (node as Record<string, unknown>)?.[key], spec)
+  if (!target) {
+    throw new Error(`Unresolved reference ${value.$ref}`)
+  }
+  return resolve(spec, target as T)
+}
+
+// HH summaries come HTML-escaped, e.g. "Directory of employer&#x27;s addresses"
+function decodeEntities(text: string) {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      return String.fromCodePoint(code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1)))
+    }
+    return named[code] ?? entity
+  })
+}
+
+// Tells the model which HH account type a tool needs
+function describeRoles(roles: string[]) {
+  if (!roles.length) {
+    return 'No HH user authorization required.'
+  }
+  if (roles.length > 1) {
+    return 'Available to applicants and employers.'
+  }
+  return roles[0] === 'employer' ? 'Requires an employer (manager) account.' : 'Requires an applicant account.'
+}
+
+function toCamelCase(name: string) {
+  return name.replace(/[_.-]([a-z0-9])/g, (_, char: string) => char.toUpperCase())
+}
+
+function toPropertyKey(name: string) {
+  return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name)
+}
+
+// Component schemas become exported constants, e.g. #/components/schemas/VacancyList -> vacancyListSchema
+function toSchemaName(ref: string) {
+  const name = ref.split('/').pop() ?? ref
+  return `${name[0].toLowerCase()}${name.slice(1)}Schema`
+}
+
+// Output schemas reference component constants and let unknown fields through, since HH objects carry many more
+// fields than are declared; input schemas are inlined and strict
+function toZod(
+  spec: OpenApiDocument,
+  schemaOrRef: SchemaObject,
+  required: boolean,
+  description?: string,
+  output = false
+): string {
+  const schema = resolve(spec, schemaOrRef)
+  let expression: string
+
+  if (output && schemaOrRef.$ref) {
+    expression = toSchemaName(schemaOrRef.$ref)
+  } else if (schema.enum) {
+    expression = `z.enum(${JSON.stringify(schema.enum)})`
+  } else if (schema.type === 'integer' || schema.type === 'number') {
+    expression = schema.type === 'integer' ? 'z.number().int()' : 'z.number()'
+    if (schema.minimum !== undefined) {
+      expression += `.min(${schema.minimum})`
+    }
+    if (schema.maximum !== undefined) {
+      expression += `.max(${schema.maximum})`
+    }
+  } else if (schema.type === 'boolean') {
+    expression = 'z.boolean()'
+  } else if (schema.type === 'array') {
+    expression = `z.array(${toZod(spec, schema.items ?? {}, true, undefined, output)})`
+    if (schema.minItems !== undefined) {
+      expression += `.min(${schema.minItems})`
+    }
+  } else if (schema.type === 'object' && schema.properties) {
+    const properties = Object.entries(schema.properties).map(
+      ([name, property]) =>
+        `${toPropertyKey(name)}: ${toZod(spec, property, !!schema.required?.includes(name), undefined, output)}`
+    )
+    expression = `z.object({ ${properties.join(', ')} })${output ? '.passthrough()' : ''}`
+  } else if (schema.type === 'object') {
+    expression = 'z.record(z.any())'
+  } else {
+    expression = 'z.string()'
+  }
+
+  if (schemaOrRef.nullable || (!(output && schemaOrRef.$ref) && schema.nullable)) {
+    expression += '.nullable()'
+  }
+
+  const text = description ?? (output && schemaOrRef.$ref ? undefined : schema.description)
+  if (text) {
+    expression += `.describe(${JSON.stringify(decodeEntities(text))})`
+  }
+  return required ? expression : `${expression}.optional()`
+}
+
+interface GeneratedTool {
+  name: string
+  summary: string
+  toolset: string
+  source: string
+  outputRef?: string
+}
+
+// The JSON object a tool returns on success, if the document describes it with a component schema
+function getOutputRef(operation: OperationObject) {
+  return operation.responses?.['200']?.content?.['application/json']?.schema.$ref
+}
+
+// Component references a schema depends on, dependencies first
+function collectRefs(spec: OpenApiDocument, schema: SchemaObject, refs: string[]) {
+  if (schema.$ref) {
+    if (!refs.includes(schema.$ref)) {
+      collectRefs(spec, resolve(spec, schema), refs)
+      refs.push(schema.$ref)
+    }
+    return refs
+  }
+  for (const property of Object.values(schema.properties ?? {})) {
+    collectRefs(spec, property, refs)
+  }
+  if (schema.items) {
+    collectRefs(spec, schema.items, refs)
+  }
+  return refs
+}
+
+function generateTool(spec: OpenApiDocument, urlPath: string, method: string, operation: OperationObject) {
+  const inputSchema: string[] = []
+  const parameters: string[] = []
+  const argNames = new Set<string>()
+
+  function addArgument(argName: string, zod: string, parameter?: string) {
+    if (argNames.has(argName)) {
+      throw new Error(`${operation.operationId}: duplicate argument ${argName}`)
+    }
+    argNames.add(argName)
+    inputSchema.push(`${toPropertyKey(argName)}: ${zod}`)
+    if (parameter) {
+      parameters.push(`${toPropertyKey(argName)}: ${parameter}`)
+    }
+  }
+
+  for (const parameterOrRef of operation.parameters ?? []) {
+    const parameter = resolve(spec, parameterOrRef)
+    if (parameter.in !== 'path' && parameter.in !== 'query') {
+      continue
+    }
+    addArgument(
+      toCamelCase(parameter.name),
+      toZod(spec, parameter.schema, parameter.in === 'path' || !!parameter.required, parameter.description),
+      `{ name: ${JSON.stringify(parameter.name)}, in: '${parameter.in}' }`
+    )
+  }
+
+  let bodyEncoding: string | undefined
+  if (operation.requestBody) {
+    const [contentType, media] = Object.entries(operation.requestBody.content)[0]
+    bodyEncoding = bodyEncodings[contentType]
+    if (!bodyEncoding) {
+      throw new Error(`${operation.operationId}: unsupported request body ${contentType}`)
+    }
+
+    const schema = resolve(spec, media.schema)
+    if (schema.properties) {
+      for (const [name, property] of Object.entries(schema.properties)) {
+        const binary = resolve(spec, property).format === 'binary'
+        const propertyRequired = !!schema.required?.includes(name)
+        addArgument(
+          toCamelCase(name),
+          toZod(spec, property, propertyRequired),
+          `{ name: ${JSON.stringify(name)}, in: 'body'${binary ? ', binary: true' : ''} }`
+        )
+        if (binary) {
+          const fileName = "z.string().describe('File name sent with the upload, e.g. photo.jpg')"
+          addArgument('fileName', propertyRequired ? fileName : `${fileName}.optional()`)
+          addArgument('contentType', "z.string().describe('MIME type of the file, e.g. image/jpeg').optional()")
+        }
+      }
+    } else {
+      // Free-form documents (vacancies, resumes, ...) are passed through as-is
+      addArgument(
+        'requestData',
+        toZod(spec, { type: 'object' }, !!operation.requestBody.required, operation.requestBody.description),
+        `{ name: 'requestData', in: 'document' }`
+      )
+    }
+  }
+
+  // List endpoints get the server-side fetchAll/maxItems mode
+  const queryNames = (operation.parameters ?? []).map((parameter) => resolve(spec, parameter).name)
+  const paginated = method === 'get' && queryNames.includes('page') && queryNames.includes('per_page')
+
+  const outputRef = getOutputRef(operation)
+  if (outputRef && resolve(spec, { $ref: outputRef }).type !== 'object') {
+    throw new Error(`${operation.operationId}: output schema must be an object`)
+  }
+
+  const summary = decodeEntities(operation.summary ?? operation.operationId)
+  const roles = operation['x-hh-roles']
+  const description = [
+    `${summary}.`,
+    operation.description && decodeEntities(operation.description),
+    roles && describeRoles(roles),
+  ]
+    .filter(Boolean)
+    .join(' ')
+  const source = `{
+    name: ${JSON.stringify(operation.operationId)},
+    description: ${JSON.stringify(description)},
+    method: '${method.toUpperCase()}',
+    path: ${JSON.stringify(urlPath)},
+    inputSchema: { ${inputSchema.join(', ')} },
+    parameters: { ${parameters.join(', ')} },
+    ${bodyEncoding ? `bodyEncoding: '${bodyEncoding}',` : ''}
+    ${paginated ? 'paginated: true,' : ''}
+    ${operation['x-hh-max-depth'] ? `maxDepth: ${operation['x-hh-max-depth']},` : ''}
+    ${operation['x-hh-cache-ttl'] ? `cacheTtl: ${operation['x-hh-cache-ttl']},` : ''}
+    ${operation['x-hh-cache-ttl'] && roles?.length ? 'cachePerUser: true,' : ''}
+    ${operation['x-hh-projection'] ? `projection: ${JSON.stringify(operation['x-hh-projection'])},` : ''}
+    ${outputRef ? `outputSchema: ${toSchemaName(outputRef)}.shape,` : ''}
+  }`
+
+  return { name: operation.operationId, summary, toolset: operation.tags?.[0] ?? 'default', source, outputRef }
+}
+
+async function format(source: string, filePath: string) {
+  const options = await prettier.resolveConfig(filePath, { editorconfig: true })
+  return prettier.format(source, { ...options, filepath: filePath })
+}
+
+async function main() {
+  const spec = JSON.parse(await fs.readFile(specPath, 'utf8')) as OpenApiDocument
+  const tools: GeneratedTool[] = []
+
+  for (const [urlPath, pathItem] of Object.entries(spec.paths)) {
+    for (const method of methods) {
+      const operation = pathItem[method]
+      if (operation) {
+        tools.push(generateTool(spec, urlPath, method, operation))
+      }
+    }
+  }
+
+  const toolsetNames = [...new Set([...(spec.tags ?? []).map((tag) => tag.name), ...tools.map((tool) => tool.toolset)])]
+  const toolsets = toolsetNames.map(
+    (toolset) =>
+      `${toPropertyKey(toolset)}: ${JSON.stringify(tools.filter((tool) => tool.toolset === toolset).map((tool) => tool.name))}`
+  )
+
+  const refs: string[] = []
+  for (const tool of tools) {
+    if (tool.outputRef) {
+      collectRefs(spec, { $ref: tool.outputRef }, refs)
+    }
+  }
+  const outputSchemas = refs.map(
+    (ref) => `export const ${toSchemaName(ref)} = ${toZod(spec, resolve(spec, { $ref: ref }), true, undefined, true)}`
+  )
+
+  const generated = await format(
+    `// Generated by scripts/generate-tools.ts from openapi/hh.openapi.json. Do not edit by hand; run \`npm run generate\`.
+import { z } from 'zod'
+import type { ToolDefinition } from './tools.js'
+
+// HH objects returned as structured content, from #/components/schemas
+${outputSchemas.join('\n\n')}
+
+export const toolDefinitions: ToolDefinition[] = [${tools.map((tool) => tool.source).join(',\n')}]
+
+// Tools grouped by HH API area; sessions can enable a subset to keep the tool list small
+export const toolsets = { ${toolsets.join(',\n')} } as const
+`,
+    outputPath
+  )
+
+  const readme = await fs.readFile(readmePath, 'utf8')
+  const toolList = tools.map((tool) => `- **\`${tool.name}\`**: ${tool.summary}`).join('\n')
+  const updatedReadme = readme.replace(
+    /(## Available Tools\n\n)[\s\S]*?(\n\n\*\*Total: )\d+/,
+    `$1${toolList}$2${tools.length}`
+  )
+
+  const outputs: [string, string][] = [
+    [outputPath, generated],
+    [readmePath, updatedReadme],
+  ]
+
+  if (process.argv.includes('--check')) {
+    const stale = []
+    for (const [filePath, content] of outputs) {
+      if ((await fs.readFile(filePath, 'utf8')) !== content) {
+        stale.push(path.relative(root, filePath))
+      }
+    }
+    if (stale.length) {
+      console.error(`Out of date, run \`npm run generate\`: ${stale.join(', ')}`)
+      process.exit(1)
+    }
+    return
+  }
+
+  for (const [filePath, content] of outputs) {
+    await fs.writeFile(filePath, content)
+  }
+  console.log(`Generated ${tools.length} tools`)
+}
+
+await main()
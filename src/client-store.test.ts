@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { ClientMetadata, createClientStore } from './client-store.js'
+
+const metadata: ClientMetadata = {
+  client_name: 'Test client',
+  redirect_uris: ['http://localhost:6274/oauth/callback'],
+  grant_types: ['authorization_code', 'refresh_token'],
+  response_types: ['code'],
+  scope: '',
+  token_endpoint_auth_method: 'client_secret_basic',
+}
+
+describe('createClientStore', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hh-client-store-'))
+    filePath = path.join(dir, 'clients.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('persists every client of concurrent registrations', async () => {
+    const store = createClientStore(filePath)
+
+    const registered = await Promise.all(Array.from({ length: 20 }, () => store.register(metadata)))
+
+    const reloaded = createClientStore(filePath)
+    for (const { client } of registered) {
+      expect(await reloaded.get(client.client_id)).toEqual(client)
+    }
+    expect(await fs.readdir(dir)).toEqual(['clients.json'])
+  })
+
+  it('verifies client secrets and registration tokens', async () => {
+    const store = createClientStore(filePath)
+    const { client, clientSecret, registrationAccessToken } = await store.register(metadata)
+
+    expect(store.verifySecret(client, clientSecret)).toBe(true)
+    expect(store.verifySecret(client, 'wrong')).toBe(false)
+    expect(store.verifySecret(client, undefined)).toBe(false)
+    expect(store.verifyRegistrationToken(client, registrationAccessToken)).toBe(true)
+    expect(store.verifyRegistrationToken(client, clientSecret)).toBe(false)
+  })
+
+  it('does not cache a client file that failed to load', async () => {
+    await fs.writeFile(filePath, '{')
+    const store = createClientStore(filePath)
+    await expect(store.get('mcp_1')).rejects.toThrow()
+
+    await fs.writeFile(filePath, '[]')
+    await expect(store.get('mcp_1')).resolves.toBeUndefined()
+  })
+})
@@ -0,0 +1,127 @@
+import crypto from 'crypto'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { readJsonFile, writeJsonFile } from './json-file.js'
+
+// Client metadata accepted by /oauth/register (RFC 7591), with the defaults of section 2
+export const clientMetadataSchema = z.object({
+  client_name: z.string().min(1),
+  redirect_uris: z.array(z.string()).min(1),
+  grant_types: z.array(z.string()).default(['authorization_code', 'refresh_token']),
+  response_types: z.array(z.string()).default(['code']),
+  scope: z.string().default(''),
+  token_endpoint_auth_method: z
+    .enum(['none', 'client_secret_post', 'client_secret_basic'])
+    .default('client_secret_basic'),
+})
+
+export type ClientMetadata = z.infer<typeof clientMetadataSchema>
+
+// Facade clients registered through /oauth/register, persisted as a JSON file
+export const registeredClientSchema = clientMetadataSchema.extend({
+  client_id: z.string(),
+  client_secret_hash: z.string().optional(),
+  client_id_issued_at: z.number(),
+  registration_access_token_hash: z.string(),
+})
+
+export type RegisteredClient = z.infer<typeof registeredClientSchema>
+
+export const defaultClientStorePath = path.join(os.homedir(), '.hh-mcp-server', 'clients.json')
+
+function hashSecret(secret: string) {
+  return crypto.createHash('sha256').update(secret).digest('hex')
+}
+
+function matchesHash(secret: string, hash: string) {
+  const expected = Buffer.from(hash, 'hex')
+  const actual = crypto.createHash('sha256').update(secret).digest()
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
+
+export function createClientStore(filePath: string = defaultClientStorePath) {
+  let clients: Promise<Map<string, RegisteredClient>> | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  // Loaded once; concurrent first calls share the same read, and a failed read is retried on the next call
+  function load() {
+    if (!clients) {
+      const loading = readJsonFile(filePath).then((stored) => {
+        const parsed = z.array(registeredClientSchema).parse(stored ?? [])
+        return new Map(parsed.map((client) => [client.client_id, client]))
+      })
+      loading.catch(() => {
+        if (clients === loading) {
+          clients = undefined
+        }
+      })
+      clients = loading
+    }
+    return clients
+  }
+
+  // Writes are chained so each one sees the clients of the writes before it
+  function persist() {
+    const write = writing.then(async () => writeJsonFile(filePath, [...(await load()).values()]))
+    writing = write.catch(() => undefined)
+    return write
+  }
+
+  return {
+    async get(clientId: string) {
+      return (await load()).get(clientId)
+    },
+
+    async register(metadata: ClientMetadata) {
+      const loaded = await load()
+      const clientSecret =
+        metadata.token_endpoint_auth_method === 'none' ? undefined : crypto.randomBytes(32).toString('base64url')
+      const registrationAccessToken = crypto.randomBytes(32).toString('base64url')
+
+      const client: RegisteredClient = {
+        ...metadata,
+        client_id: `mcp_${crypto.randomUUID()}`,
+        client_secret_hash: clientSecret ? hashSecret(clientSecret) : undefined,
+        client_id_issued_at: Math.floor(Date.now() / 1000),
+        registration_access_token_hash: hashSecret(registrationAccessToken),
+      }
+
+      loaded.set(client.client_id, client)
+      await persist()
+
+      return { client, clientSecret, registrationAccessToken }
+    },
+
+    async remove(clientId: string) {
+      const removed = (await load()).delete(clientId)
+      if (removed) {
+        await persist()
+      }
+      return removed
+    },
+
+    verifySecret(client: RegisteredClient, clientSecret: string | undefined) {
+      if (!client.client_secret_hash) {
+        return true
+      }
+      return !!clientSecret && matchesHash(clientSecret, client.client_secret_hash)
+    },
+
+    verifyRegistrationToken(client: RegisteredClient, token: string | undefined) {
+      return !!token && matchesHash(token, client.registration_access_token_hash)
+    },
+  }
+}
+
+export type ClientStore = ReturnType<typeof createClientStore>
+
+// Public view of a registered client, as returned by registration and RFC 7592 read requests
+export function toClientInformation(client: RegisteredClient) {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { client_secret_hash, registration_access_token_hash, ...information } = client
+  return {
+    ...information,
+    client_secret_expires_at: client_secret_hash ? 0 : undefined,
+  }
+}
@@ -0,0 +1,100 @@
+import { z } from 'zod'
+import { readJsonFile, writeJsonFile } from './json-file.js'
+
+// Cache of HH reference data (areas, dictionaries, metro, ...), shared by all sessions and optionally persisted.
+// Stale entries are revalidated with ETag / Last-Modified, so an unchanged dictionary costs a 304 instead of a download.
+const dictionaryCacheEntrySchema = z.object({
+  data: z.unknown(),
+  etag: z.string().optional(),
+  lastModified: z.string().optional(),
+  fetchedAt: z.number(),
+})
+
+type DictionaryCacheEntry = z.infer<typeof dictionaryCacheEntrySchema>
+
+export interface ConditionalResponse {
+  status: number
+  data: unknown
+  headers: Record<string, unknown>
+}
+
+export interface DictionaryCacheOptions {
+  filePath?: string
+  // Overrides the per-tool TTLs from the OpenAPI document
+  ttlMs?: number
+}
+
+export function createDictionaryCache({ filePath, ttlMs: ttlOverrideMs }: DictionaryCacheOptions = {}) {
+  let entries: Map<string, DictionaryCacheEntry> | undefined
+  const pending = new Map<string, Promise<unknown>>()
+  let writing = Promise.resolve()
+
+  async function load() {
+    if (entries) {
+      return entries
+    }
+
+    const stored = filePath ? await readJsonFile(filePath) : undefined
+    entries = new Map(Object.entries(z.record(dictionaryCacheEntrySchema).parse(stored ?? {})))
+    return entries
+  }
+
+  // Writes are chained so concurrent refreshes never interleave
+  function persist(cache: Map<string, DictionaryCacheEntry>) {
+    if (!filePath) {
+      return
+    }
+    writing = writing
+      .then(() => writeJsonFile(filePath, Object.fromEntries(cache)))
+      .catch((error) => console.error('Failed to persist dictionary cache', error))
+  }
+
+  async function refresh(
+    key: string,
+    entry: DictionaryCacheEntry | undefined,
+    fetch: (headers: Record<string, string>) => Promise<ConditionalResponse>
+  ) {
+    const headers: Record<string, string> = {}
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified
+    }
+
+    const response = await fetch(headers)
+    const cache = await load()
+    const next =
+      response.status === 304 && entry
+        ? { ...entry, fetchedAt: Date.now() }
+        : {
+            data: response.data,
+            etag: typeof response.headers.etag === 'string' ? response.headers.etag : undefined,
+            lastModified:
+              typeof response.headers['last-modified'] === 'string' ? response.headers['last-modified'] : undefined,
+            fetchedAt: Date.now(),
+          }
+    cache.set(key, next)
+    persist(cache)
+    return next.data
+  }
+
+  return {
+    // Serve a fresh entry without calling HH; concurrent misses for the same key share one request
+    async get(key: string, ttlMs: number, fetch: (headers: Record<string, string>) => Promise<ConditionalResponse>) {
+      const entry = (await load()).get(key)
+      if (entry && Date.now() - entry.fetchedAt < (ttlOverrideMs ?? ttlMs)) {
+        return entry.data
+      }
+
+      let request = pending.get(key)
+      if (!request) {
+        request = refresh(key, entry, fetch).finally(() => pending.delete(key))
+        pending.set(key, request)
+      }
+      return request
+    },
+  }
+}
+
+export type DictionaryCache = ReturnType<typeof createDictionaryCache>
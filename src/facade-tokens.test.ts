@@ -0,0 +1,143 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from '@jest/globals'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createTokenIssuer, loadSigningKey, SigningKey } from './facade-tokens.js'
+
+const grant = { clientId: 'client-1', user: { id: '42', email: 'user@example.com' } }
+
+function decodeSegment(segment: string) {
+  return JSON.parse(Buffer.from(segment, 'base64url').toString())
+}
+
+function encodeSegment(value: object) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+describe('createTokenIssuer', () => {
+  let signingKey: SigningKey
+  let otherSigningKey: SigningKey
+  let dir: string
+  let filePath: string
+
+  beforeAll(async () => {
+    signingKey = await loadSigningKey()
+    otherSigningKey = await loadSigningKey()
+  })
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hh-facade-tokens-'))
+    filePath = path.join(dir, 'grants.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  function openIssuer(overrides: Partial<Parameters<typeof createTokenIssuer>[0]> = {}) {
+    return createTokenIssuer({
+      issuer: 'https://mcp.example.com',
+      audience: 'https://mcp.example.com/mcp',
+      signingKey,
+      accessTokenTtlSeconds: 3600,
+      refreshTokenTtlSeconds: 86400,
+      filePath,
+      ...overrides,
+    })
+  }
+
+  it('verifies the access tokens it issues', async () => {
+    const issuer = openIssuer()
+    const { access_token } = await issuer.issue(grant)
+
+    const verified = await issuer.verify(access_token)
+
+    expect(verified?.grant).toMatchObject(grant)
+    expect(verified?.claims).toMatchObject({ sub: '42', client_id: 'client-1', aud: 'https://mcp.example.com/mcp' })
+  })
+
+  it('rejects a token whose payload was tampered with', async () => {
+    const issuer = openIssuer()
+    const { access_token } = await issuer.issue(grant)
+    const [header, payload, signature] = access_token.split('.')
+
+    const tampered = encodeSegment({ ...decodeSegment(payload), sub: '43', exp: Math.floor(Date.now() / 1000) + 1e6 })
+
+    expect(await issuer.verify(`${header}.${tampered}.${signature}`)).toBeUndefined()
+  })
+
+  it('rejects a token with a forged or missing signature', async () => {
+    const issuer = openIssuer()
+    const { access_token } = await issuer.issue(grant)
+    const [header, payload] = access_token.split('.')
+    const { access_token: foreign } = await openIssuer({ signingKey: otherSigningKey, filePath: undefined }).issue(
+      grant
+    )
+    const [, , foreignSignature] = foreign.split('.')
+
+    expect(await issuer.verify(`${header}.${payload}.${foreignSignature}`)).toBeUndefined()
+    expect(await issuer.verify(`${header}.${payload}.`)).toBeUndefined()
+    expect(await issuer.verify(`${encodeSegment({ alg: 'none', kid: signingKey.kid })}.${payload}.`)).toBeUndefined()
+  })
+
+  it('rejects tokens signed with another key or for another audience', async () => {
+    const issuer = openIssuer()
+    const { access_token: foreign } = await openIssuer({ signingKey: otherSigningKey, filePath: undefined }).issue(
+      grant
+    )
+    const { access_token: otherAudience } = await openIssuer({ audience: 'https://other.example.com/mcp' }).issue(grant)
+
+    expect(await issuer.verify(foreign)).toBeUndefined()
+    expect(await issuer.verify(otherAudience)).toBeUndefined()
+  })
+
+  it('rejects an expired token', async () => {
+    const issuer = openIssuer({ accessTokenTtlSeconds: 0 })
+    const { access_token } = await issuer.issue(grant)
+
+    expect(await issuer.verify(access_token)).toBeUndefined()
+  })
+
+  it('resolves grants and refresh tokens after a reload', async () => {
+    const { access_token, refresh_token } = await openIssuer().issue(grant)
+
+    const reloaded = openIssuer()
+
+    expect((await reloaded.verify(access_token))?.grant).toMatchObject(grant)
+    expect(await reloaded.findGrantByRefreshToken(refresh_token, 'client-1')).toMatchObject(grant)
+    expect(await reloaded.findGrantByRefreshToken(refresh_token, 'client-2')).toBeUndefined()
+  })
+
+  it('rereads a grant store that failed to load', async () => {
+    const { access_token } = await openIssuer().issue(grant)
+    const stored = await fs.readFile(filePath, 'utf8')
+    await fs.writeFile(filePath, '{"grants": "corrupt"}')
+
+    const reloaded = openIssuer()
+    await expect(reloaded.issue(grant)).rejects.toThrow()
+    await fs.writeFile(filePath, stored)
+
+    expect((await reloaded.verify(access_token))?.grant).toMatchObject(grant)
+  })
+
+  it('rotates the refresh token on every issue', async () => {
+    const issuer = openIssuer()
+    const first = await issuer.issue(grant)
+    const { grantId } = (await issuer.findGrantByRefreshToken(first.refresh_token, 'client-1'))!
+
+    const second = await issuer.issue({ ...grant, grantId })
+
+    expect(await issuer.findGrantByRefreshToken(first.refresh_token, 'client-1')).toBeUndefined()
+    expect(await issuer.findGrantByRefreshToken(second.refresh_token, 'client-1')).toMatchObject({ grantId })
+  })
+
+  it('sweeps grants whose refresh token expired', async () => {
+    const issuer = openIssuer({ refreshTokenTtlSeconds: 0 })
+    const { access_token, refresh_token } = await issuer.issue(grant)
+
+    expect(await issuer.findGrantByRefreshToken(refresh_token, 'client-1')).toBeUndefined()
+    expect(await issuer.sweep()).toBe(1)
+    expect(await issuer.verify(access_token)).toBeUndefined()
+    expect(await openIssuer().verify(access_token)).toBeUndefined()
+  })
+})
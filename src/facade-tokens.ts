@@ -0,0 +1,241 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { readJsonFile, writeJsonFile } from './json-file.js'
+
+// Facade-issued access tokens: RS256 JWTs that reference a grant held server-side; the HH tokens
+// behind a grant live in the token vault under the grant's HH user id
+const facadeGrantSchema = z.object({
+  grantId: z.string(),
+  clientId: z.string(),
+  user: z.record(z.unknown()),
+})
+
+export type FacadeGrant = z.infer<typeof facadeGrantSchema>
+
+// Refresh tokens are stored by hash and expire, so the sweeper can drop abandoned grants
+const refreshTokenEntrySchema = z.object({
+  grantId: z.string(),
+  expiresAt: z.number(),
+})
+
+type RefreshTokenEntry = z.infer<typeof refreshTokenEntrySchema>
+
+const grantStoreSchema = z.object({
+  grants: z.array(facadeGrantSchema),
+  refreshTokens: z.record(refreshTokenEntrySchema),
+})
+
+export interface FacadeTokenClaims {
+  iss: string
+  aud: string
+  sub: string
+  client_id: string
+  jti: string
+  grant_id: string
+  iat: number
+  exp: number
+}
+
+export interface SigningKey {
+  kid: string
+  privateKey: crypto.KeyObject
+  publicKey: crypto.KeyObject
+}
+
+// Load a PEM private key from disk, or generate an ephemeral one (tokens then do not survive restarts)
+export async function loadSigningKey(privateKeyPath?: string): Promise<SigningKey> {
+  const privateKey = privateKeyPath
+    ? crypto.createPrivateKey(await fs.readFile(privateKeyPath, 'utf8'))
+    : crypto.generateKeyPairSync('rsa', { modulusLength: 2048 }).privateKey
+  const publicKey = crypto.createPublicKey(privateKey)
+
+  // RFC 7638 JWK thumbprint as key id
+  const { e, kty, n } = publicKey.export({ format: 'jwk' })
+  const kid = crypto.createHash('sha256').update(JSON.stringify({ e, kty, n })).digest('base64url')
+
+  return { kid, privateKey, publicKey }
+}
+
+export const defaultGrantStorePath = path.join(os.homedir(), '.hh-mcp-server', 'grants.json')
+
+function hashRefreshToken(refreshToken: string) {
+  return crypto.createHash('sha256').update(refreshToken).digest('hex')
+}
+
+function encodeSegment(value: object) {
+  return Buffer.from(JSON.stringify(value)).toString('base64url')
+}
+
+export function createTokenIssuer(options: {
+  issuer: string
+  audience: string
+  signingKey: SigningKey
+  accessTokenTtlSeconds: number
+  refreshTokenTtlSeconds: number
+  // Without a file grants are kept in memory only and do not survive restarts
+  filePath?: string
+}) {
+  const { issuer, audience, signingKey, accessTokenTtlSeconds, refreshTokenTtlSeconds, filePath } = options
+  let state: Promise<{ grants: Map<string, FacadeGrant>; refreshTokens: Map<string, RefreshTokenEntry> }> | undefined
+  let writing = Promise.resolve()
+
+  // Loaded once; concurrent first calls share the same read, and a failed read is retried on the next call
+  function load() {
+    if (!state) {
+      const loading = (async () => {
+        const stored = grantStoreSchema.parse(
+          (filePath && (await readJsonFile(filePath))) ?? { grants: [], refreshTokens: {} }
+        )
+        return {
+          grants: new Map(stored.grants.map((grant) => [grant.grantId, grant])),
+          refreshTokens: new Map(Object.entries(stored.refreshTokens)),
+        }
+      })()
+      state = loading
+      loading.catch(() => {
+        if (state === loading) {
+          state = undefined
+        }
+      })
+    }
+    return state
+  }
+
+  // Writes are chained so concurrent token requests never interleave
+  function persist() {
+    if (!filePath) {
+      return writing
+    }
+    writing = writing
+      .then(async () => {
+        const { grants, refreshTokens } = await load()
+        await writeJsonFile(filePath, {
+          grants: [...grants.values()],
+          refreshTokens: Object.fromEntries(refreshTokens),
+        })
+      })
+      .catch((error) => console.error('Failed to persist facade grants', error))
+    return writing
+  }
+
+  function sign(claims: FacadeTokenClaims) {
+    const signingInput = `${encodeSegment({ alg: 'RS256', typ: 'at+jwt', kid: signingKey.kid })}.${encodeSegment(claims)}`
+    const signature = crypto.sign('sha256', Buffer.from(signingInput), signingKey.privateKey)
+    return `${signingInput}.${signature.toString('base64url')}`
+  }
+
+  return {
+    jwks() {
+      return {
+        keys: [{ ...signingKey.publicKey.export({ format: 'jwk' }), kid: signingKey.kid, alg: 'RS256', use: 'sig' }],
+      }
+    },
+
+    // Mint an access token and a rotated opaque refresh token for a grant
+    async issue(grant: Omit<FacadeGrant, 'grantId'> & { grantId?: string }) {
+      const { grants, refreshTokens } = await load()
+      const grantId = grant.grantId ?? crypto.randomUUID()
+      grants.set(grantId, { ...grant, grantId })
+
+      for (const [hash, entry] of refreshTokens) {
+        if (entry.grantId === grantId) {
+          refreshTokens.delete(hash)
+        }
+      }
+      const now = Math.floor(Date.now() / 1000)
+      const refreshToken = crypto.randomBytes(32).toString('base64url')
+      refreshTokens.set(hashRefreshToken(refreshToken), { grantId, expiresAt: now + refreshTokenTtlSeconds })
+      await persist()
+
+      const accessToken = sign({
+        iss: issuer,
+        aud: audience,
+        sub: String(grant.user.id ?? ''),
+        client_id: grant.clientId,
+        jti: crypto.randomUUID(),
+        grant_id: grantId,
+        iat: now,
+        exp: now + accessTokenTtlSeconds,
+      })
+
+      return {
+        access_token: accessToken,
+        token_type: 'Bearer',
+        expires_in: accessTokenTtlSeconds,
+        refresh_token: refreshToken,
+      }
+    },
+
+    // Verify signature, issuer, audience and expiry locally, then resolve the grant
+    async verify(accessToken: string) {
+      const [header, payload, signature] = accessToken.split('.')
+      if (!header || !payload || !signature) {
+        return undefined
+      }
+
+      try {
+        const { alg, kid } = JSON.parse(Buffer.from(header, 'base64url').toString())
+        if (alg !== 'RS256' || kid !== signingKey.kid) {
+          return undefined
+        }
+
+        const valid = crypto.verify(
+          'sha256',
+          Buffer.from(`${header}.${payload}`),
+          signingKey.publicKey,
+          Buffer.from(signature, 'base64url')
+        )
+        if (!valid) {
+          return undefined
+        }
+
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as FacadeTokenClaims
+        if (claims.iss !== issuer || claims.aud !== audience || claims.exp <= Math.floor(Date.now() / 1000)) {
+          return undefined
+        }
+
+        const grant = (await load()).grants.get(claims.grant_id)
+        return grant ? { claims, grant } : undefined
+      } catch {
+        return undefined
+      }
+    },
+
+    async findGrantByRefreshToken(refreshToken: string, clientId: string) {
+      const { grants, refreshTokens } = await load()
+      const entry = refreshTokens.get(hashRefreshToken(refreshToken))
+      const grant = entry && entry.expiresAt > Math.floor(Date.now() / 1000) ? grants.get(entry.grantId) : undefined
+      return grant?.clientId === clientId ? grant : undefined
+    },
+
+    // Drop expired refresh tokens and the grants left without one; returns the number of grants removed
+    async sweep() {
+      const { grants, refreshTokens } = await load()
+      const now = Math.floor(Date.now() / 1000)
+      for (const [hash, entry] of refreshTokens) {
+        if (entry.expiresAt <= now) {
+          refreshTokens.delete(hash)
+        }
+      }
+
+      const liveGrantIds = new Set([...refreshTokens.values()].map((entry) => entry.grantId))
+      let removed = 0
+      for (const grantId of grants.keys()) {
+        if (!liveGrantIds.has(grantId)) {
+          grants.delete(grantId)
+          removed++
+        }
+      }
+
+      if (removed) {
+        await persist()
+      }
+      return removed
+    },
+  }
+}
+
+export type TokenIssuer = ReturnType<typeof createTokenIssuer>
@@ -0,0 +1,106 @@
+import axios from 'axios'
+import type { ToolDefinition } from './tools.js'
+
+// An HH API failure in a shape agents can act on: what failed, which arguments were wrong and what to do next
+export interface HhToolError {
+  status?: number
+  // HH error types as "type/value", e.g. "oauth/token_expired" or "negotiations/already_applied"
+  errors: string[]
+  badArguments: { name: string; description?: string }[]
+  message: string
+  hint?: string
+  captchaUrl?: string
+  requestId?: string
+}
+
+// Remediation hints by HH error type, most specific ("type/value") first
+const errorHints: Record<string, string> = {
+  'oauth/token_expired':
+    'The HH access token has expired. Call authorize with grantType refresh_token, or sign in again.',
+  'oauth/token_revoked': 'The HH access token was revoked. The user has to sign in to HH again.',
+  'oauth/bad_authorization': 'The HH access token is invalid. The user has to sign in to HH again.',
+  'oauth/user_auth_expected': 'This tool needs an HH user token; the user has to sign in to HH first.',
+  'oauth/invalid_grant': 'The authorization code or refresh token is invalid or already used; sign in again.',
+  'oauth/application_not_found': 'HH_CLIENT_ID does not match a registered HH application.',
+  'negotiations/already_applied':
+    'The user has already applied to this vacancy; find the existing response with get-negotiations.',
+  'negotiations/limit_exceeded': 'The daily limit of applications is reached; try again tomorrow.',
+  'negotiations/resume_not_published': 'The resume is not published; publish it with publish-resume first.',
+  'negotiations/letter_required': 'This vacancy requires a cover letter; pass it as message.',
+  'negotiations/test_required': 'This vacancy requires a test that can only be completed on hh.ru.',
+  'negotiations/vacancy_archived': 'The vacancy is archived and no longer accepts responses.',
+  'negotiations/invalid_vacancy': 'The vacancy does not exist or does not accept responses.',
+  'negotiations/not_enough_purchased_services': 'The employer account has no paid services left for this action.',
+  captcha_required:
+    'HH wants a captcha solved. Ask the user to open captchaUrl in a browser, solve it, then retry the tool.',
+  forbidden: 'The account lacks access; check which account type the tool description requires.',
+  bad_argument: 'Fix the arguments listed in badArguments and retry.',
+  bad_json_data: 'The request body is not valid for this endpoint; check requestData against the HH documentation.',
+  not_found: 'Nothing exists with this ID; look the ID up again with a search or list tool.',
+}
+
+const statusHints: Record<number, string> = {
+  400: 'HH rejected the arguments; check them against the tool description.',
+  401: 'The request is not authorized; the user has to sign in to HH.',
+  403: 'The account lacks access; check which account type the tool description requires.',
+  404: 'Nothing exists with this ID; look the ID up again with a search or list tool.',
+  429: 'HH is throttling requests; wait a little before retrying.',
+}
+
+interface HhErrorPayload {
+  description?: string
+  message?: string
+  request_id?: string
+  errors?: { type?: string; value?: string; captcha_url?: string }[]
+  bad_arguments?: { name?: string; description?: string }[]
+  bad_argument?: string
+  // OAuth errors of the /token endpoint
+  error?: string
+  error_description?: string
+}
+
+export function parseHhError(error: unknown, definition?: ToolDefinition): HhToolError | undefined {
+  if (!axios.isAxiosError(error)) {
+    return undefined
+  }
+
+  const status = error.response?.status
+  const payload: HhErrorPayload = typeof error.response?.data === 'object' ? (error.response.data ?? {}) : {}
+
+  const errors = (payload.errors ?? [])
+    .filter((item) => item.type)
+    .map((item) => (item.value ? `${item.type}/${item.value}` : String(item.type)))
+  if (payload.error) {
+    errors.push(`oauth/${payload.error}`)
+  }
+
+  // Report HH parameter names as the tool arguments they came from
+  const argNames = new Map(Object.entries(definition?.parameters ?? {}).map(([argName, { name }]) => [name, argName]))
+  const badArguments: HhToolError['badArguments'] = []
+  const reported: { name?: string; description?: string }[] = [
+    ...(payload.bad_arguments ?? []),
+    ...(payload.bad_argument ? [{ name: payload.bad_argument }] : []),
+    ...(payload.errors ?? []).filter((item) => item.type === 'bad_argument').map((item) => ({ name: item.value })),
+  ]
+  for (const { name, description } of reported) {
+    const argName = name && (argNames.get(name) ?? name)
+    if (argName && !badArguments.some((argument) => argument.name === argName)) {
+      badArguments.push({ name: argName, description })
+    }
+  }
+
+  const hint =
+    errors.map((type) => errorHints[type] ?? errorHints[type.split('/')[0]]).find(Boolean) ??
+    (status && status >= 500 ? 'HH failed to handle the request; retry later.' : undefined) ??
+    (status ? statusHints[status] : 'HH could not be reached; check the network and retry.')
+
+  return {
+    status,
+    errors,
+    badArguments,
+    message: payload.description || payload.error_description || payload.message || error.message,
+    hint,
+    captchaUrl: payload.errors?.find((item) => item.captcha_url)?.captcha_url,
+    requestId: payload.request_id,
+  }
+}
@@ -0,0 +1,24 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+
+// Read a JSON file, returning undefined when it does not exist yet
+export async function readJsonFile(filePath: string): Promise<unknown> {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf8'))
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined
+    }
+    throw error
+  }
+}
+
+// Write to a temp file and rename so a crash never leaves a truncated file behind; the temp name is unique per
+// write, so concurrent writers never rename each other's file away
+export async function writeJsonFile(filePath: string, data: unknown): Promise<void> {
+  const tmpPath = `${filePath}.${process.pid}.${crypto.randomUUID()}.tmp`
+  await fs.mkdir(path.dirname(filePath), { recursive: true })
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), { mode: 0o600 })
+  await fs.rename(tmpPath, filePath)
+}
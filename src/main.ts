@@ -4,31 +4,65 @@ import express from 'express'
 import cors from 'cors'
 import crypto from 'crypto'
 import { z } from 'zod'
-import { mcpServer, envSchema as baseEnvSchema } from './server.js'
+import {
+  createMcpServer,
+  envSchema as baseEnvSchema,
+  rawTokenClientId,
+  tokenCache,
+  tokenVault,
+  toolsets,
+  Toolset,
+} from './server.js'
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
+import { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js'
+import { clientMetadataSchema, ClientStore, createClientStore, toClientInformation } from './client-store.js'
+import { createTokenIssuer, defaultGrantStorePath, loadSigningKey, TokenIssuer } from './facade-tokens.js'
+import { verifyCodeChallenge } from './pkce.js'
 
-// Extend Express Request type to include user info
+// Extend Express Request type to include user info and the auth info forwarded to MCP handlers
 declare module 'express-serve-static-core' {
   interface Request {
     user?: Record<string, unknown>
+    auth?: AuthInfo
   }
 }
 
 const envSchema = baseEnvSchema.extend({
   PORT: z.string().optional().default('3000'),
   HOST: z.string().optional().default('localhost'),
-  HH_CLIENT_ID: z.string(),
-  HH_CLIENT_SECRET: z.string(),
-  HH_USER_AGENT: z.string(),
-  HH_REDIRECT_URI: z.string(),
+  MCP_TRANSPORT: z.enum(['http', 'stdio']).optional().default('http'),
+  MCP_CLIENT_STORE_PATH: z.string().optional(),
+  MCP_GRANT_STORE_PATH: z.string().optional(),
+  JWT_PRIVATE_KEY_PATH: z.string().optional(),
+  HH_LOCALE: z.string().optional(),
+  MCP_TOOLSETS: z.string().optional(),
+  MCP_SESSION_IDLE_TTL_SECONDS: z.string().optional().default('1800'),
+  OAUTH_STATE_TTL_SECONDS: z.string().optional().default('600'),
+  SESSION_SWEEP_INTERVAL_SECONDS: z.string().optional().default('60'),
+  ACCESS_TOKEN_TTL_SECONDS: z.string().optional().default('3600'),
+  REFRESH_TOKEN_TTL_SECONDS: z.string().optional().default('2592000'),
 })
 
-const env = envSchema.parse(process.env)
+// `--stdio` takes precedence over MCP_TRANSPORT so `npx` configs can switch mode via args only
+const useStdio = process.argv.includes('--stdio') || process.env.MCP_TRANSPORT === 'stdio'
+
+// The HH application credentials are only needed by the OAuth facade of the HTTP transport
+const env = (
+  useStdio ? envSchema : envSchema.required({ HH_CLIENT_ID: true, HH_CLIENT_SECRET: true, HH_REDIRECT_URI: true })
+).parse(process.env)
 
 const app = express()
 const sessions = new Map<string, Record<string, unknown>>()
+// The OAuth facade only runs over HTTP; both are created when the HTTP server starts, so stdio mode never
+// loads the signing key or the client store
+let clientStore: ClientStore
+let tokenIssuer: TokenIssuer
 const transports: { [sessionId: string]: StreamableHTTPServerTransport } = {}
+const sessionLastActivity: { [sessionId: string]: number } = {}
+// HH user id that initialized each MCP session
+const sessionOwners: { [sessionId: string]: string } = {}
 
 // Enable CORS for all routes and expose MCP session header
 app.use(
@@ -40,18 +74,36 @@ app.use(
 
 app.use(express.json({ limit: '10mb' }))
 
+// stdout carries JSON-RPC messages in stdio mode, so all logging goes to stderr there
+const write = useStdio ? console.error : console.log
+
 const logger = {
   log: (...message: (string | object)[]) => {
-    console.log('[MCP]', ...message)
+    write('[MCP]', ...message)
   },
   error: (...message: (string | object)[]) => {
     console.error('[MCP ERROR]', ...message)
   },
   debug: (...message: (string | object)[]) => {
-    console.log('[MCP DEBUG]', ...message)
+    write('[MCP DEBUG]', ...message)
   },
 }
 
+// Express 4 does not handle rejected promises from async routes; answer them with a 500 instead of crashing
+function handleAsync(handler: (req: express.Request, res: express.Response) => Promise<unknown>) {
+  return (req: express.Request, res: express.Response) => {
+    handler(req, res).catch((error) => {
+      logger.error(`${req.method} ${req.path} error:`, error instanceof Error ? error.message : String(error))
+      if (!res.headersSent) {
+        res.status(500).json({
+          error: 'server_error',
+          error_description: 'Internal server error',
+        })
+      }
+    })
+  }
+}
+
 // OAuth 2.0 Protected Resource Metadata endpoint
 app.get('/.well-known/oauth-protected-resource', (req, res) => {
   const baseUrl = `http://${env.HOST}:${env.PORT}`
@@ -78,74 +130,69 @@ app.get('/.well-known/oauth-authorization-server', (req, res) => {
     jwks_uri: `${baseUrl}/.well-known/jwks.json`,
     response_types_supported: ['code'],
     grant_types_supported: ['authorization_code', 'refresh_token'],
-    token_endpoint_auth_methods_supported: ['client_secret_post', 'client_secret_basic'],
+    token_endpoint_auth_methods_supported: ['none', 'client_secret_post', 'client_secret_basic'],
     code_challenge_methods_supported: ['S256'],
     scopes_supported: [],
     // This is now a real OAuth Authorization Server, not just metadata
   })
 })
 
-// JWKS endpoint - HeadHunter doesn't provide this, return empty keys for now
+// JWKS endpoint - publishes the key used to sign facade access tokens
 app.get('/.well-known/jwks.json', (req, res) => {
-  res.json({
-    keys: [],
-  })
+  res.json(tokenIssuer.jwks())
 })
 
-// OAuth 2.0 Dynamic Client Registration endpoint (HeadHunter compatibility)
-app.post('/oauth/register', (req, res) => {
+// Validate a redirect URI from client metadata: absolute URL without fragment
+function isValidRedirectUri(uri: unknown) {
+  if (typeof uri !== 'string') {
+    return false
+  }
+  try {
+    return !new URL(uri).hash
+  } catch {
+    return false
+  }
+}
+
+// Read RFC 7592 registration access token from the Authorization header
+function getRegistrationAccessToken(req: express.Request) {
+  const authHeader = req.get('Authorization')
+  return authHeader?.startsWith('Bearer ') ? authHeader.substring(7) : undefined
+}
+
+// OAuth 2.0 Dynamic Client Registration endpoint (RFC 7591)
+app.post('/oauth/register', async (req, res) => {
   try {
-    const {
-      client_name,
-      grant_types = ['authorization_code'],
-      response_types = ['code'],
-      redirect_uris,
-      scope = '',
-    } = req.body
-
-    // Validate required fields
-    if (!client_name) {
+    // Metadata is validated before it is stored, so clients.json always loads again on restart
+    const parsed = clientMetadataSchema.safeParse(req.body)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
       return res.status(400).json({
-        error: 'invalid_client_metadata',
-        error_description: 'client_name is required',
+        error: issue.path[0] === 'redirect_uris' ? 'invalid_redirect_uri' : 'invalid_client_metadata',
+        error_description: `${issue.path.join('.') || 'metadata'}: ${issue.message}`,
       })
     }
+    const metadata = parsed.data
 
-    if (!redirect_uris || !Array.isArray(redirect_uris) || redirect_uris.length === 0) {
+    if (!metadata.redirect_uris.every(isValidRedirectUri)) {
       return res.status(400).json({
         error: 'invalid_redirect_uri',
-        error_description: 'redirect_uris is required and must be a non-empty array',
-      })
-    }
-
-    // Check if OAuth credentials are configured
-    if (!env.HH_CLIENT_ID) {
-      return res.status(503).json({
-        error: 'oauth_not_configured',
-        error_description:
-          'OAuth client credentials not configured. Set HH_CLIENT_ID and HH_CLIENT_SECRET environment variables.',
+        error_description: 'redirect_uris must be absolute URLs without a fragment',
       })
     }
 
-    // Return pre-configured OAuth client credentials
-    // This simulates DCR but actually uses static credentials
-    const client_id = env.HH_CLIENT_ID
+    const { client, clientSecret, registrationAccessToken } = await clientStore.register(metadata)
 
-    logger.log(`DCR facade: Accepting any redirect_uri for "${client_name}"`)
+    logger.log(`DCR facade: Registered client ${client.client_id} for "${client.client_name}"`)
 
-    // Return successful registration response - now we accept ANY redirect_uri
-    res.json({
-      client_id,
-      client_name,
-      grant_types,
-      response_types,
-      redirect_uris, // Accept client's redirect_uris as-is (facade supports any URI)
-      scope,
-      token_endpoint_auth_method: 'client_secret_basic',
-      client_id_issued_at: Math.floor(Date.now() / 1000),
+    res.status(201).json({
+      ...toClientInformation(client),
+      client_secret: clientSecret,
+      registration_access_token: registrationAccessToken,
+      registration_client_uri: `http://${env.HOST}:${env.PORT}/oauth/register/${client.client_id}`,
     })
   } catch (error) {
-    logger.error('DCR simulation error:', error instanceof Error ? error.message : String(error))
+    logger.error('DCR registration error:', error instanceof Error ? error.message : String(error))
     res.status(400).json({
       error: 'invalid_request',
       error_description: 'Invalid client registration request',
@@ -153,135 +200,360 @@ app.post('/oauth/register', (req, res) => {
   }
 })
 
-// OAuth Client Configuration endpoint for MCP Inspector
-app.get('/.well-known/oauth-client-config', (req, res) => {
-  if (!env.HH_CLIENT_ID) {
-    return res.status(503).json({
-      error: 'oauth_not_configured',
-      error_description: 'OAuth client ID not configured. Set HH_CLIENT_ID environment variable.',
+// OAuth 2.0 Dynamic Client Registration Management - read client configuration (RFC 7592)
+app.get(
+  '/oauth/register/:clientId',
+  handleAsync(async (req, res) => {
+    const client = await clientStore.get(req.params.clientId)
+
+    if (!client || !clientStore.verifyRegistrationToken(client, getRegistrationAccessToken(req))) {
+      return res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({
+        error: 'invalid_token',
+        error_description: 'Invalid registration access token',
+      })
+    }
+
+    res.json({
+      ...toClientInformation(client),
+      registration_client_uri: `http://${env.HOST}:${env.PORT}/oauth/register/${client.client_id}`,
     })
-  }
+  })
+)
 
-  const baseUrl = `http://${env.HOST}:${env.PORT}`
+// OAuth 2.0 Dynamic Client Registration Management - deprovision client (RFC 7592)
+app.delete(
+  '/oauth/register/:clientId',
+  handleAsync(async (req, res) => {
+    const client = await clientStore.get(req.params.clientId)
 
-  res.json({
-    client_id: env.HH_CLIENT_ID,
-    authorization_endpoint: `${baseUrl}/oauth/authorize`, // Our facade endpoint
-    token_endpoint: `${baseUrl}/oauth/token`, // Our facade endpoint
-    scope: '', // OAuth server doesn't use explicit scopes
-    response_type: 'code',
-    redirect_uri: env.HH_REDIRECT_URI || 'http://localhost:6274/oauth/callback/debug', // Configurable redirect URI
-    code_challenge_method: 'S256', // PKCE for security
+    if (!client || !clientStore.verifyRegistrationToken(client, getRegistrationAccessToken(req))) {
+      return res.status(401).set('WWW-Authenticate', 'Bearer error="invalid_token"').json({
+        error: 'invalid_token',
+        error_description: 'Invalid registration access token',
+      })
+    }
+
+    await clientStore.remove(client.client_id)
+    logger.log(`DCR facade: Deleted client ${client.client_id}`)
+
+    res.status(204).end()
   })
-})
+)
 
-// Facade OAuth Authorization endpoint - accepts any redirect_uri and delegates to HeadHunter
-app.get('/oauth/authorize', (req, res) => {
-  const { client_id, redirect_uri, state, code_challenge, code_challenge_method = 'S256' } = req.query
+// Facade OAuth Authorization endpoint - validates the registered redirect_uri and delegates to HeadHunter
+app.get(
+  '/oauth/authorize',
+  handleAsync(async (req, res) => {
+    const { client_id, redirect_uri, state, code_challenge, code_challenge_method = 'S256' } = req.query
 
-  // Validate required parameters
-  if (!client_id || !redirect_uri) {
-    return res.status(400).json({
-      error: 'invalid_request',
-      error_description: 'client_id and redirect_uri are required',
+    // Validate required parameters
+    if (!client_id || !redirect_uri) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'client_id and redirect_uri are required',
+      })
+    }
+
+    // Never redirect to a URI that was not registered - respond with an error page instead
+    const client = await clientStore.get(client_id as string)
+    if (!client) {
+      return res.status(400).json({
+        error: 'invalid_client',
+        error_description: 'Unknown client_id',
+      })
+    }
+
+    if (!client.redirect_uris.includes(redirect_uri as string)) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'redirect_uri is not registered for this client',
+      })
+    }
+
+    // PKCE is mandatory for MCP clients and only S256 is advertised in metadata
+    if (!code_challenge || code_challenge_method !== 'S256') {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'code_challenge with code_challenge_method=S256 is required',
+      })
+    }
+
+    // Store original request parameters for later use in callback
+    const stateKey = `auth_${crypto.randomUUID()}`
+    sessions.set(stateKey, {
+      originalRedirectUri: redirect_uri as string,
+      originalState: state as string,
+      clientId: client_id as string,
+      codeChallenge: code_challenge as string,
+      codeChallengeMethod: code_challenge_method as string,
+      createdAt: new Date(),
     })
-  }
 
-  // Store original request parameters for later use in callback
-  const stateKey = `auth_${crypto.randomUUID()}`
-  sessions.set(stateKey, {
-    originalRedirectUri: redirect_uri as string,
-    originalState: state as string,
-    clientId: client_id as string,
-    codeChallenge: code_challenge as string,
-    codeChallengeMethod: code_challenge_method as string,
-    createdAt: new Date(),
+    // Construct HeadHunter authorization URL with our callback
+    const hhAuthUrl = new URL('https://hh.ru/oauth/authorize')
+    hhAuthUrl.searchParams.set('client_id', env.HH_CLIENT_ID || '')
+    hhAuthUrl.searchParams.set('response_type', 'code')
+    hhAuthUrl.searchParams.set(
+      'redirect_uri',
+      env.HH_REDIRECT_URI || `http://${env.HOST}:${env.PORT}/oauth/callback/debug`
+    )
+    hhAuthUrl.searchParams.set('state', stateKey) // Use our state key
+
+    logger.log(`Facade authorize: Redirecting to HeadHunter with state=${stateKey}`)
+
+    // Redirect user to HeadHunter authorization
+    res.redirect(hhAuthUrl.toString())
   })
+)
 
-  // Construct HeadHunter authorization URL with our callback
-  const hhAuthUrl = new URL('https://hh.ru/oauth/authorize')
-  hhAuthUrl.searchParams.set('client_id', env.HH_CLIENT_ID || '')
-  hhAuthUrl.searchParams.set('response_type', 'code')
-  hhAuthUrl.searchParams.set(
-    'redirect_uri',
-    env.HH_REDIRECT_URI || `http://${env.HOST}:${env.PORT}/oauth/callback/debug`
-  )
-  hhAuthUrl.searchParams.set('state', stateKey) // Use our state key
+// Exchange token request parameters with HeadHunter token endpoint
+async function requestHeadHunterToken(tokenParams: URLSearchParams) {
+  return fetch('https://api.hh.ru/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'User-Agent': 'MCP-Facade-Server/1.0',
+    },
+    body: tokenParams,
+  })
+}
 
-  logger.log(`Facade authorize: Redirecting to HeadHunter with state=${stateKey}`)
+// Decode client_secret_basic credentials; a malformed header yields undefined
+function parseBasicCredentials(authHeader: string) {
+  const credentials = Buffer.from(authHeader.substring(6), 'base64').toString()
+  const separatorIndex = credentials.indexOf(':')
+  if (separatorIndex < 0) {
+    return undefined
+  }
 
-  // Redirect user to HeadHunter authorization
-  res.redirect(hhAuthUrl.toString())
-})
+  try {
+    return {
+      clientId: decodeURIComponent(credentials.substring(0, separatorIndex)),
+      clientSecret: decodeURIComponent(credentials.substring(separatorIndex + 1)),
+    }
+  } catch {
+    return undefined
+  }
+}
+
+// Authenticate a registered client via client_secret_basic, client_secret_post or none (public client)
+async function authenticateClient(req: express.Request) {
+  let clientId: unknown = req.body.client_id
+  let clientSecret: unknown = req.body.client_secret
 
-// Facade OAuth Token endpoint - exchanges authorization code for access token
-app.post('/oauth/token', express.urlencoded({ extended: true }), async (req, res) => {
-  const { grant_type, client_id, code, redirect_uri, code_verifier } = req.body
+  const authHeader = req.get('Authorization')
+  if (authHeader?.startsWith('Basic ')) {
+    const credentials = parseBasicCredentials(authHeader)
+    if (!credentials) {
+      return undefined
+    }
+    clientId = credentials.clientId
+    clientSecret = credentials.clientSecret
+  }
+
+  if (typeof clientId !== 'string' || !clientId) {
+    return undefined
+  }
+
+  const client = await clientStore.get(clientId)
+  if (!client || !clientStore.verifySecret(client, typeof clientSecret === 'string' ? clientSecret : undefined)) {
+    return undefined
+  }
 
-  // Validate required parameters
-  if (grant_type !== 'authorization_code' || !client_id || !code || !redirect_uri) {
+  return client
+}
+
+// Fetch the HeadHunter user behind an access token
+async function requestHeadHunterUser(token: string) {
+  return fetch('https://api.hh.ru/me', {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      'User-Agent': 'MCP-Server/1.0',
+    },
+  })
+}
+
+// Map a HeadHunter token response onto the token vault format
+function toVaultTokens(tokenData: Record<string, unknown>) {
+  return {
+    accessToken: tokenData.access_token as string,
+    refreshToken: tokenData.refresh_token as string | undefined,
+    expiresAt:
+      typeof tokenData.expires_in === 'number' ? Math.floor(Date.now() / 1000) + tokenData.expires_in : undefined,
+  }
+}
+
+// Handle refresh_token grant - rotate the facade refresh token; the vault refreshes the HeadHunter token itself
+async function refreshAccessToken(res: express.Response, clientId: string, refreshToken: unknown) {
+  if (typeof refreshToken !== 'string' || !refreshToken.trim()) {
     return res.status(400).json({
       error: 'invalid_request',
-      error_description: 'Invalid token request parameters',
+      error_description: 'refresh_token is required',
     })
   }
 
-  try {
-    // Use the configured redirect_uri instead of the client's redirect_uri
-    const configuredRedirectUri = env.HH_REDIRECT_URI || `http://${env.HOST}:${env.PORT}/oauth/callback/debug`
-
-    // Prepare token request for HeadHunter
-    const tokenParams = new URLSearchParams({
-      grant_type: 'authorization_code',
-      client_id: env.HH_CLIENT_ID || '',
-      client_secret: env.HH_CLIENT_SECRET || '',
-      code: code,
-      redirect_uri: configuredRedirectUri, // Use our configured redirect_uri, not client's
+  const grant = await tokenIssuer.findGrantByRefreshToken(refreshToken.trim(), clientId)
+  if (!grant) {
+    return res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'Refresh token is invalid or expired',
     })
+  }
 
-    // Add PKCE code_verifier if provided by client
-    if (code_verifier) {
-      tokenParams.set('code_verifier', code_verifier)
+  try {
+    // Only hand out a new token pair while the vault still holds a usable HeadHunter token
+    const hhAccessToken = await tokenVault.getAccessToken(String(grant.user.id))
+    if (!hhAccessToken) {
+      return res.status(400).json({
+        error: 'invalid_grant',
+        error_description: 'HeadHunter authorization is no longer available, please sign in again',
+      })
     }
 
-    logger.log(`Facade token: Exchanging code with HeadHunter, redirect_uri=${configuredRedirectUri}`)
+    logger.log(`Facade token: Issuing refreshed access token for client ${clientId}`)
 
-    // Exchange code with HeadHunter token endpoint
-    const tokenResponse = await fetch('https://api.hh.ru/token', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'MCP-Facade-Server/1.0',
-      },
-      body: tokenParams,
+    // Return a new facade token pair (with our issuer)
+    res.json({
+      ...(await tokenIssuer.issue(grant)),
+      issuer: `http://${env.HOST}:${env.PORT}`,
+    })
+  } catch (error) {
+    logger.error('Token refresh error:', error instanceof Error ? error.message : String(error))
+    res.status(400).json({
+      error: 'invalid_grant',
+      error_description: 'HeadHunter refresh token is invalid or expired',
     })
+  }
+}
+
+// Facade OAuth Token endpoint - exchanges authorization code or refresh token for access token
+app.post(
+  '/oauth/token',
+  express.urlencoded({ extended: true }),
+  handleAsync(async (req, res) => {
+    const { grant_type, code, redirect_uri, code_verifier, refresh_token } = req.body
+
+    const client = await authenticateClient(req)
+    if (!client) {
+      return res.status(401).json({
+        error: 'invalid_client',
+        error_description: 'Client authentication failed',
+      })
+    }
+
+    if (!client.grant_types.includes(grant_type)) {
+      return res.status(400).json({
+        error: 'unauthorized_client',
+        error_description: `Client is not registered for grant_type ${grant_type}`,
+      })
+    }
+
+    if (grant_type === 'refresh_token') {
+      return refreshAccessToken(res, client.client_id, refresh_token)
+    }
 
-    if (!tokenResponse.ok) {
-      const errorText = await tokenResponse.text()
-      logger.error(`HeadHunter token exchange failed: ${tokenResponse.status} ${errorText}`)
+    // Validate required parameters
+    if (grant_type !== 'authorization_code' || !code || !redirect_uri) {
+      return res.status(400).json({
+        error: 'invalid_request',
+        error_description: 'Invalid token request parameters',
+      })
+    }
+
+    if (!client.redirect_uris.includes(redirect_uri)) {
+      return res.status(400).json({
+        error: 'invalid_grant',
+        error_description: 'redirect_uri is not registered for this client',
+      })
+    }
+
+    // Authorization code is single-use: drop the binding before any further checks
+    const codeKey = `code_${code}`
+    const codeBinding = sessions.get(codeKey)
+    sessions.delete(codeKey)
+
+    if (!codeBinding) {
       return res.status(400).json({
         error: 'invalid_grant',
         error_description: 'Authorization code is invalid or expired',
       })
     }
 
-    const tokenData = (await tokenResponse.json()) as Record<string, unknown>
+    if (codeBinding.clientId !== client.client_id || codeBinding.originalRedirectUri !== redirect_uri) {
+      logger.error(`Facade token: Authorization code was issued to a different client or redirect_uri`)
+      return res.status(400).json({
+        error: 'invalid_grant',
+        error_description: 'Authorization code was not issued to this client',
+      })
+    }
 
-    logger.log(`Facade token: Successfully exchanged code for HeadHunter access token`)
+    if (!verifyCodeChallenge(code_verifier, codeBinding.codeChallenge as string)) {
+      logger.error(`Facade token: PKCE verification failed for client ${client.client_id}`)
+      return res.status(400).json({
+        error: 'invalid_grant',
+        error_description: 'PKCE verification failed',
+      })
+    }
 
-    // Return the token response from HeadHunter (with our issuer)
-    res.json({
-      ...tokenData,
-      issuer: `http://${env.HOST}:${env.PORT}`, // Override issuer to point to our facade
-    })
-  } catch (error) {
-    logger.error('Token exchange error:', error instanceof Error ? error.message : String(error))
-    res.status(500).json({
-      error: 'server_error',
-      error_description: 'Internal server error during token exchange',
-    })
-  }
-})
+    try {
+      // Use the configured redirect_uri instead of the client's redirect_uri
+      const configuredRedirectUri = env.HH_REDIRECT_URI || `http://${env.HOST}:${env.PORT}/oauth/callback/debug`
+
+      // Prepare token request for HeadHunter
+      const tokenParams = new URLSearchParams({
+        grant_type: 'authorization_code',
+        client_id: env.HH_CLIENT_ID || '',
+        client_secret: env.HH_CLIENT_SECRET || '',
+        code: code,
+        redirect_uri: configuredRedirectUri, // Use our configured redirect_uri, not client's
+      })
+
+      // PKCE is verified by the facade above; HeadHunter never saw the client's code_challenge
+      logger.log(`Facade token: Exchanging code with HeadHunter, redirect_uri=${configuredRedirectUri}`)
+
+      // Exchange code with HeadHunter token endpoint
+      const tokenResponse = await requestHeadHunterToken(tokenParams)
+
+      if (!tokenResponse.ok) {
+        const errorText = await tokenResponse.text()
+        logger.error(`HeadHunter token exchange failed: ${tokenResponse.status} ${errorText}`)
+        return res.status(400).json({
+          error: 'invalid_grant',
+          error_description: 'Authorization code is invalid or expired',
+        })
+      }
+
+      const vaultTokens = toVaultTokens((await tokenResponse.json()) as Record<string, unknown>)
+
+      logger.log(`Facade token: Successfully exchanged code for HeadHunter access token`)
+
+      // Resolve the HeadHunter user once so protected requests never need to call /me
+      const userResponse = await requestHeadHunterUser(vaultTokens.accessToken)
+      if (!userResponse.ok) {
+        logger.error(`HeadHunter user lookup failed: ${userResponse.status} ${userResponse.statusText}`)
+        return res.status(502).json({
+          error: 'server_error',
+          error_description: 'Failed to resolve HeadHunter user for the issued token',
+        })
+      }
+      const user = (await userResponse.json()) as Record<string, unknown>
+
+      // The HeadHunter token pair stays server-side in the vault; the client only gets facade-signed tokens
+      await tokenVault.store(String(user.id), vaultTokens)
+
+      res.json({
+        ...(await tokenIssuer.issue({ clientId: client.client_id, user })),
+        issuer: `http://${env.HOST}:${env.PORT}`,
+      })
+    } catch (error) {
+      logger.error('Token exchange error:', error instanceof Error ? error.message : String(error))
+      res.status(500).json({
+        error: 'server_error',
+        error_description: 'Internal server error during token exchange',
+      })
+    }
+  })
+)
 
 // Enhanced proxy callback endpoint for facade authorization flow
 app.get('/oauth/callback/debug', (req, res) => {
@@ -312,8 +584,15 @@ app.get('/oauth/callback/debug', (req, res) => {
     })
   }
 
-  // Clean up session
+  // Clean up session and bind the HeadHunter code to the original client's PKCE challenge
   sessions.delete(state as string)
+  sessions.set(`code_${code}`, {
+    originalRedirectUri: authSession.originalRedirectUri,
+    clientId: authSession.clientId,
+    codeChallenge: authSession.codeChallenge,
+    codeChallengeMethod: authSession.codeChallengeMethod,
+    createdAt: new Date(),
+  })
 
   // Redirect back to original client with authorization code
   const callbackUrl = new URL(authSession.originalRedirectUri as string)
@@ -326,6 +605,26 @@ app.get('/oauth/callback/debug', (req, res) => {
   res.redirect(callbackUrl.toString())
 })
 
+// Raw HeadHunter tokens are passed through to tool handlers as-is
+function toRawTokenAuth(token: string, user: Record<string, unknown>): AuthInfo {
+  return {
+    token,
+    clientId: rawTokenClientId,
+    scopes: [],
+    extra: { userId: String(user.id) },
+  }
+}
+
+function rejectInvalidToken(res: express.Response) {
+  return res
+    .status(401)
+    .set(
+      'WWW-Authenticate',
+      `Bearer realm="MCP Server", resource="http://${env.HOST}:${env.PORT}/.well-known/oauth-protected-resource", error="invalid_token"`
+    )
+    .json({ error: 'Invalid or expired token' })
+}
+
 // Authorization middleware
 async function requireAuth(req: express.Request, res: express.Response, next: express.NextFunction) {
   const authHeader = req.get('Authorization')
@@ -345,24 +644,47 @@ async function requireAuth(req: express.Request, res: express.Response, next: ex
     return res.status(401).json({ error: 'Invalid token' })
   }
 
+  // Facade-issued JWTs are verified locally and carry the upstream HeadHunter token server-side
+  if (token.split('.').length === 3) {
+    const verified = await tokenIssuer.verify(token)
+    if (!verified) {
+      return rejectInvalidToken(res)
+    }
+
+    req.user = verified.grant.user
+    req.auth = {
+      token,
+      clientId: verified.claims.client_id,
+      scopes: [],
+      expiresAt: verified.claims.exp,
+      extra: { userId: verified.claims.sub },
+    }
+    return next()
+  }
+
+  // Serve repeated calls from the validation cache instead of hitting /me every time
+  const cached = tokenCache.get(token)
+  if (cached) {
+    if (!cached.valid) {
+      return rejectInvalidToken(res)
+    }
+    req.user = cached.user
+    req.auth = toRawTokenAuth(token, cached.user)
+    return next()
+  }
+
   // Validate HeadHunter access token
   try {
-    const response = await fetch('https://api.hh.ru/me', {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        'User-Agent': 'MCP-Server/1.0',
-      },
-    })
+    const response = await requestHeadHunterUser(token)
 
     if (!response.ok) {
       logger.debug(`Token validation failed: ${response.status} ${response.statusText}`)
-      return res
-        .status(401)
-        .set(
-          'WWW-Authenticate',
-          `Bearer realm="MCP Server", resource="http://${env.HOST}:${env.PORT}/.well-known/oauth-protected-resource", error="invalid_token"`
-        )
-        .json({ error: 'Invalid or expired token' })
+
+      // Only cache definitive rejections, not transient HeadHunter failures
+      if (response.status === 401 || response.status === 403) {
+        tokenCache.setInvalid(token)
+      }
+      return rejectInvalidToken(res)
     }
 
     const userInfo = (await response.json()) as Record<string, unknown>
@@ -370,8 +692,11 @@ async function requireAuth(req: express.Request, res: express.Response, next: ex
     const userId = userInfo.id as string | undefined
     logger.debug(`Authenticated user: ${userEmail || userId}`)
 
+    tokenCache.setValid(token, userInfo)
+
     // Store user info in request for later use
     req.user = userInfo
+    req.auth = toRawTokenAuth(token, userInfo)
     next()
   } catch (error) {
     logger.error('Token validation error:', error instanceof Error ? error.message : String(error))
@@ -379,6 +704,45 @@ async function requireAuth(req: express.Request, res: express.Response, next: ex
   }
 }
 
+// Parse a comma-separated toolset list, ignoring unknown names; undefined enables all toolsets
+function parseToolsets(value: string | undefined) {
+  if (!value) {
+    return undefined
+  }
+  return value
+    .split(',')
+    .map((toolset) => toolset.trim())
+    .filter((toolset): toolset is Toolset => toolset in toolsets)
+}
+
+// Map Accept-Language onto the HH API locale (RU or EN)
+function parseLocale(acceptLanguage: string | undefined) {
+  const language = acceptLanguage?.split(',')[0]?.trim().toLowerCase()
+  if (language?.startsWith('en')) {
+    return 'EN'
+  }
+  if (language?.startsWith('ru')) {
+    return 'RU'
+  }
+  return undefined
+}
+
+// Sessions belong to the user that initialized them; other users get the same answer as for an unknown session
+function findSessionTransport(req: express.Request, sessionId: string) {
+  return sessionOwners[sessionId] === String(req.user?.id) ? transports[sessionId] : undefined
+}
+
+function sendSessionNotFound(res: express.Response) {
+  return res.status(404).json({
+    jsonrpc: '2.0',
+    error: {
+      code: -32001,
+      message: 'Session not found',
+    },
+    id: null,
+  })
+}
+
 // MCP endpoint - POST for JSON-RPC requests
 app.post('/mcp', requireAuth, async (req, res) => {
   try {
@@ -387,17 +751,22 @@ app.post('/mcp', requireAuth, async (req, res) => {
 
     let transport: StreamableHTTPServerTransport
 
-    if (sessionId && transports[sessionId]) {
+    const existingTransport = sessionId ? findSessionTransport(req, sessionId) : undefined
+    if (sessionId && existingTransport) {
       // Reuse existing transport
-      transport = transports[sessionId]
+      transport = existingTransport
+      sessionLastActivity[sessionId] = Date.now()
     } else if (!sessionId && isInitializeRequest(req.body)) {
       // New initialization request
       transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: () => crypto.randomUUID(),
-        enableJsonResponse: true, // Enable JSON response mode for simplicity
+        // Responses are streamed as SSE so notifications such as fetchAll progress reach the client before the result
+        enableJsonResponse: false,
         onsessioninitialized: (sessionId) => {
           logger.log(`Session initialized with ID: ${sessionId}`)
           transports[sessionId] = transport
+          sessionLastActivity[sessionId] = Date.now()
+          sessionOwners[sessionId] = String(req.user?.id)
         },
       })
 
@@ -407,13 +776,24 @@ app.post('/mcp', requireAuth, async (req, res) => {
         if (sid && transports[sid]) {
           logger.log(`Transport closed for session ${sid}`)
           delete transports[sid]
+          delete sessionLastActivity[sid]
+          delete sessionOwners[sid]
         }
       }
 
+      // Each session gets its own MCP server bound to the authenticated user
+      const mcpServer = createMcpServer({
+        user: req.user,
+        locale: parseLocale(req.get('Accept-Language')) ?? env.HH_LOCALE,
+        toolsets: parseToolsets(req.get('Mcp-Toolsets') ?? env.MCP_TOOLSETS),
+      })
+
       // Connect transport to MCP server BEFORE handling request
       await mcpServer.connect(transport)
       await transport.handleRequest(req, res, req.body)
       return // Already handled
+    } else if (sessionId) {
+      return sendSessionNotFound(res)
     } else {
       // Invalid request - no session ID or not initialization request
       res.status(400).json({
@@ -445,20 +825,170 @@ app.post('/mcp', requireAuth, async (req, res) => {
   }
 })
 
+// MCP endpoint - GET opens the server-to-client SSE stream, DELETE terminates the session
+async function handleSessionRequest(req: express.Request, res: express.Response) {
+  const sessionId = req.get('Mcp-Session-Id')
+
+  if (!sessionId) {
+    return res.status(400).json({
+      jsonrpc: '2.0',
+      error: {
+        code: -32000,
+        message: 'Bad Request: No valid session ID provided',
+      },
+      id: null,
+    })
+  }
+
+  const transport = findSessionTransport(req, sessionId)
+  if (!transport) {
+    return sendSessionNotFound(res)
+  }
+
+  sessionLastActivity[sessionId] = Date.now()
+
+  try {
+    logger.log(`MCP ${req.method} request for session: ${sessionId}`)
+    await transport.handleRequest(req, res)
+  } catch (error) {
+    logger.error(`MCP ${req.method} error:`, error instanceof Error ? error.message : String(error))
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32603,
+          message: 'Internal error',
+          data: error instanceof Error ? error.message : String(error),
+        },
+        id: null,
+      })
+    }
+  }
+}
+
+app.get('/mcp', requireAuth, handleSessionRequest)
+app.delete('/mcp', requireAuth, handleSessionRequest)
+
+// Counts of live in-memory state, reported by the health check
+function getSessionMetrics() {
+  let authorizationStates = 0
+  let authorizationCodes = 0
+  for (const key of sessions.keys()) {
+    if (key.startsWith('auth_')) {
+      authorizationStates++
+    } else if (key.startsWith('code_')) {
+      authorizationCodes++
+    }
+  }
+
+  return {
+    mcpSessions: Object.keys(transports).length,
+    authorizationStates,
+    authorizationCodes,
+    cachedTokenValidations: tokenCache.size,
+  }
+}
+
+// Close idle MCP sessions, drop OAuth authorization state that was never completed and expired facade grants
+async function sweepExpiredSessions() {
+  const now = Date.now()
+  const oauthStateTtlMs = parseInt(env.OAUTH_STATE_TTL_SECONDS) * 1000
+  const sessionIdleTtlMs = parseInt(env.MCP_SESSION_IDLE_TTL_SECONDS) * 1000
+  let expiredStates = 0
+  let expiredSessions = 0
+
+  for (const [key, value] of sessions) {
+    if (now - (value.createdAt as Date).getTime() > oauthStateTtlMs) {
+      sessions.delete(key)
+      expiredStates++
+    }
+  }
+
+  for (const sessionId in transports) {
+    if (now - (sessionLastActivity[sessionId] ?? 0) <= sessionIdleTtlMs) {
+      continue
+    }
+
+    try {
+      logger.log(`Closing idle transport for session ${sessionId}`)
+      await transports[sessionId].close()
+    } catch (error) {
+      logger.error(
+        `Error closing idle transport for session ${sessionId}:`,
+        error instanceof Error ? error.message : String(error)
+      )
+    }
+    delete transports[sessionId]
+    delete sessionLastActivity[sessionId]
+    delete sessionOwners[sessionId]
+    expiredSessions++
+  }
+
+  const expiredGrants = await tokenIssuer.sweep()
+
+  if (expiredStates || expiredSessions || expiredGrants) {
+    logger.log(
+      `Session sweep: expired ${expiredStates} OAuth states, ${expiredSessions} MCP sessions and ${expiredGrants} facade grants`,
+      getSessionMetrics()
+    )
+  }
+}
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
     version: '1.0.0',
+    sessions: getSessionMetrics(),
   })
 })
 
+async function startStdio() {
+  if (!env.HH_ACCESS_TOKEN) {
+    logger.log('HH_ACCESS_TOKEN is not set, tools will use the local token store if present')
+  }
+
+  const mcpServer = createMcpServer({
+    locale: env.HH_LOCALE,
+    toolsets: parseToolsets(env.MCP_TOOLSETS),
+  })
+
+  const transport = new StdioServerTransport()
+  await mcpServer.connect(transport)
+  logger.log('MCP Server (stdio) started')
+}
+
 async function main() {
   try {
+    if (useStdio) {
+      await startStdio()
+      return
+    }
+
     const port = parseInt(env.PORT)
     const host = env.HOST
 
+    clientStore = createClientStore(env.MCP_CLIENT_STORE_PATH)
+    tokenIssuer = createTokenIssuer({
+      issuer: `http://${host}:${port}`,
+      audience: `http://${host}:${port}`,
+      signingKey: await loadSigningKey(env.JWT_PRIVATE_KEY_PATH),
+      accessTokenTtlSeconds: parseInt(env.ACCESS_TOKEN_TTL_SECONDS),
+      refreshTokenTtlSeconds: parseInt(env.REFRESH_TOKEN_TTL_SECONDS),
+      // Tokens signed with an ephemeral key die with the process, so their grants are not worth keeping
+      filePath: env.JWT_PRIVATE_KEY_PATH ? (env.MCP_GRANT_STORE_PATH ?? defaultGrantStorePath) : undefined,
+    })
+
+    setInterval(
+      () => {
+        sweepExpiredSessions().catch((error) => {
+          logger.error('Session sweep error:', error instanceof Error ? error.message : String(error))
+        })
+      },
+      parseInt(env.SESSION_SWEEP_INTERVAL_SECONDS) * 1000
+    ).unref()
+
     app.listen(port, host, () => {
       logger.log(` MCP Server (OAuth HTTP) started on http://${host}:${port}`)
       logger.log(`MCP endpoint: http://${host}:${port}/mcp`)
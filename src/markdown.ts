@@ -0,0 +1,246 @@
+import { z } from 'zod'
+
+// Extra argument of tools that can render their response as a readable document instead of JSON
+export const formatSchema = {
+  format: z
+    .enum(['json', 'markdown'])
+    .describe('json returns the HH response, markdown a readable document to show to the user')
+    .optional(),
+}
+
+export type MarkdownRenderer = (data: unknown) => string
+
+// HH responses are loosely typed here; renderers skip whatever is missing, e.g. after a fields projection
+type Json = Record<string, any> // eslint-disable-line @typescript-eslint/no-explicit-any
+
+const currencySymbols: Record<string, string> = {
+  RUR: '₽',
+  USD: '$',
+  EUR: '€',
+  KZT: '₸',
+  UAH: '₴',
+  BYR: 'Br',
+  UZS: 'сум',
+  GEL: '₾',
+  AZN: '₼',
+  KGS: 'сом',
+}
+
+const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+// Vacancy and resume descriptions are HTML; keep lists and emphasis, drop everything else
+export function htmlToMarkdown(html: string) {
+  return html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|ul|ol|h\d)>/gi, '\n\n')
+    .replace(/<\/?(strong|b)>/gi, '**')
+    .replace(/<\/?(em|i)>/gi, '_')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        return String.fromCodePoint(
+          code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1))
+        )
+      }
+      return entities[code] ?? entity
+    })
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+function formatAmount(amount: number, currency?: string) {
+  const symbol = currency ? (currencySymbols[currency] ?? currency) : ''
+  return `${amount.toLocaleString('ru-RU')}${symbol ? ` ${symbol}` : ''}`
+}
+
+// Vacancy salary ranges, e.g. "100 000 – 150 000 ₽ before tax"
+export function formatSalary(salary?: Json | null) {
+  if (!salary || (salary.from == null && salary.to == null)) {
+    return 'not specified'
+  }
+
+  let range: string
+  if (salary.from != null && salary.to != null) {
+    range = `${salary.from.toLocaleString('ru-RU')} – ${formatAmount(salary.to, salary.currency)}`
+  } else if (salary.from != null) {
+    range = `from ${formatAmount(salary.from, salary.currency)}`
+  } else {
+    range = `up to ${formatAmount(salary.to, salary.currency)}`
+  }
+
+  if (salary.gross == null) {
+    return range
+  }
+  return `${range} ${salary.gross ? 'before tax' : 'after tax'}`
+}
+
+function formatExperience(months?: number) {
+  if (months == null) {
+    return undefined
+  }
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  return [years && `${years} yr`, rest && `${rest} mo`].filter(Boolean).join(' ') || 'less than a month'
+}
+
+// "- **Label:** value" lines for the fields that are present
+function facts(entries: [string, unknown][]) {
+  return entries
+    .filter(([, value]) => value !== undefined && value !== null && value !== '')
+    .map(([label, value]) => `- **${label}:** ${value}`)
+    .join('\n')
+}
+
+function sections(parts: (string | undefined | false)[]) {
+  return parts.filter(Boolean).join('\n\n')
+}
+
+function renderVacancyFacts(vacancy: Json) {
+  return facts([
+    ['Salary', 'salary' in vacancy ? formatSalary(vacancy.salary) : undefined],
+    ['Employer', vacancy.employer?.name],
+    ['Area', vacancy.area?.name],
+    ['Address', vacancy.address?.raw],
+    ['Experience', vacancy.experience?.name],
+    ['Schedule', vacancy.schedule?.name],
+    ['Employment', vacancy.employment?.name],
+    ['Published', vacancy.published_at],
+    ['Link', vacancy.alternate_url],
+  ])
+}
+
+export function renderVacancy(data: unknown) {
+  const vacancy = data as Json
+  const skills = (vacancy.key_skills ?? []).map((skill: Json) => skill.name)
+  const contacts = vacancy.contacts
+  return sections([
+    `# ${vacancy.name ?? `Vacancy ${vacancy.id ?? ''}`.trim()}`,
+    vacancy.archived && '_Archived_',
+    renderVacancyFacts(vacancy),
+    skills.length && `## Key skills\n\n${skills.map((skill: string) => `- ${skill}`).join('\n')}`,
+    vacancy.description && `## Description\n\n${htmlToMarkdown(vacancy.description)}`,
+    contacts &&
+      `## Contacts\n\n${facts([
+        ['Name', contacts.name],
+        ['Email', contacts.email],
+        ['Phones', contacts.phones?.map((phone: Json) => phone.formatted ?? phone.number).join(', ')],
+      ])}`,
+  ])
+}
+
+function renderPageHeader(title: string, data: Json) {
+  const shown = data.items?.length ?? 0
+  const found = data.found ?? shown
+  const page = data.page !== undefined && data.pages !== undefined ? `, page ${data.page + 1} of ${data.pages}` : ''
+  return `# ${title}\n\nShowing ${shown} of ${found}${page}${data.truncated ? ', more results available' : ''}`
+}
+
+export function renderVacancyList(data: unknown) {
+  const list = data as Json
+  return sections([
+    renderPageHeader('Vacancies', list),
+    ...(list.items ?? []).map((vacancy: Json) => {
+      const snippet = [vacancy.snippet?.requirement, vacancy.snippet?.responsibility]
+        .filter(Boolean)
+        .map((text: string) => htmlToMarkdown(text))
+        .join(' ')
+      return sections([
+        `## ${vacancy.name ?? 'Vacancy'}${vacancy.id ? ` (${vacancy.id})` : ''}`,
+        renderVacancyFacts(vacancy),
+        snippet,
+      ])
+    }),
+  ])
+}
+
+function renderResumeFacts(resume: Json) {
+  const name = [resume.last_name, resume.first_name, resume.middle_name].filter(Boolean).join(' ')
+  return facts([
+    ['Name', name],
+    ['Age', resume.age],
+    ['Area', resume.area?.name],
+    [
+      'Desired salary',
+      resume.salary?.amount != null ? formatAmount(resume.salary.amount, resume.salary.currency) : undefined,
+    ],
+    ['Total experience', formatExperience(resume.total_experience?.months)],
+    ['Status', resume.status?.name],
+    ['Updated', resume.updated_at],
+    ['Link', resume.alternate_url],
+  ])
+}
+
+export function renderResume(data: unknown) {
+  const resume = data as Json
+  const skills: string[] = resume.skill_set ?? []
+  const experience = (resume.experience ?? []).map((job: Json) =>
+    sections([
+      `### ${[job.position, job.company].filter(Boolean).join(', ')}`,
+      `${job.start ?? '?'} – ${job.end ?? 'present'}${job.area?.name ? `, ${job.area.name}` : ''}`,
+      job.description && htmlToMarkdown(job.description),
+    ])
+  )
+  const education = (resume.education?.primary ?? []).map(
+    (item: Json) => `- ${[item.name, item.organization, item.result, item.year].filter(Boolean).join(', ')}`
+  )
+  return sections([
+    `# ${resume.title ?? `Resume ${resume.id ?? ''}`.trim()}`,
+    renderResumeFacts(resume),
+    skills.length && `## Key skills\n\n${skills.map((skill) => `- ${skill}`).join('\n')}`,
+    resume.skills && `## About\n\n${htmlToMarkdown(resume.skills)}`,
+    experience.length && `## Experience\n\n${experience.join('\n\n')}`,
+    education.length &&
+      `## Education${resume.education?.level?.name ? ` (${resume.education.level.name})` : ''}\n\n${education.join('\n')}`,
+  ])
+}
+
+export function renderResumeList(data: unknown) {
+  const list = data as Json
+  return sections([
+    renderPageHeader('Resumes', list),
+    ...(list.items ?? []).map((resume: Json) =>
+      sections([`## ${resume.title ?? 'Resume'}${resume.id ? ` (${resume.id})` : ''}`, renderResumeFacts(resume)])
+    ),
+  ])
+}
+
+function renderNegotiationFacts(negotiation: Json) {
+  return facts([
+    ['State', negotiation.state?.name],
+    ['Vacancy', negotiation.vacancy?.name && `${negotiation.vacancy.name} (${negotiation.vacancy.id})`],
+    ['Employer', negotiation.vacancy?.employer?.name],
+    ['Resume', negotiation.resume?.title && `${negotiation.resume.title} (${negotiation.resume.id})`],
+    ['New messages', negotiation.has_updates ? 'yes' : undefined],
+    ['Updated', negotiation.updated_at],
+  ])
+}
+
+export function renderNegotiation(data: unknown) {
+  const negotiation = data as Json
+  return sections([`# Negotiation ${negotiation.id ?? ''}`.trim(), renderNegotiationFacts(negotiation)])
+}
+
+export function renderNegotiationList(data: unknown) {
+  const list = data as Json
+  return sections([
+    renderPageHeader('Negotiations', list),
+    ...(list.items ?? []).map((negotiation: Json) =>
+      sections([`## Negotiation ${negotiation.id ?? ''}`.trim(), renderNegotiationFacts(negotiation)])
+    ),
+  ])
+}
+
+// A conversation, oldest message first as HH returns it
+export function renderNegotiationMessages(data: unknown) {
+  const list = data as Json
+  return sections([
+    renderPageHeader('Messages', list),
+    ...(list.items ?? []).map((message: Json) => {
+      const author = message.author?.participant_type ?? 'unknown'
+      const state = message.state?.name ? ` · ${message.state.name}` : ''
+      return `**${author}** · ${message.created_at ?? ''}${state}\n\n${message.text ? htmlToMarkdown(message.text) : '_No text_'}`
+    }),
+  ])
+}
@@ -0,0 +1,81 @@
+import { z } from 'zod'
+
+// Extra arguments of list tools (those with page/perPage) that walk HH result pages on the server
+export const paginationSchema = {
+  fetchAll: z
+    .boolean()
+    .describe('Fetch all result pages and merge their items instead of returning a single page')
+    .optional(),
+  maxItems: z
+    .number()
+    .int()
+    .min(1)
+    .describe('Stop after collecting this many items; implies fetchAll. Starts from page (0 by default)')
+    .optional(),
+}
+
+// Keys fetchAll adds to the page envelope, declared in the output schema of list tools
+export const fetchAllOutputSchema = {
+  pages_fetched: z.number().int().optional(),
+  truncated: z.boolean().optional(),
+}
+
+export interface PageResponse {
+  items?: unknown[]
+  found?: number
+  pages?: number
+  [key: string]: unknown
+}
+
+export interface FetchAllOptions {
+  startPage: number
+  perPage: number
+  maxItems: number
+  // HH refuses pages beyond this many items, e.g. 2000 for vacancy search
+  maxDepth?: number
+  onProgress?: (fetched: number, total: number) => Promise<void>
+}
+
+// Walk pages until HH runs out of results, maxItems is reached or the depth limit would be crossed
+export async function fetchAllPages(
+  fetchPage: (page: number, perPage: number) => Promise<PageResponse>,
+  options: FetchAllOptions
+) {
+  const { startPage, perPage, maxItems, maxDepth, onProgress } = options
+  const lastPage = maxDepth === undefined ? Infinity : Math.floor(maxDepth / perPage) - 1
+
+  const first = await fetchPage(startPage, perPage)
+  if (!Array.isArray(first.items)) {
+    return first
+  }
+
+  const items = [...first.items]
+  const pages = first.pages ?? 1
+  const found = first.found ?? items.length
+  // Items HH can actually return from startPage on, used as the progress total
+  const reachable = Math.min(found, (Math.min(pages, lastPage + 1) - startPage) * perPage, maxItems)
+  await onProgress?.(Math.min(items.length, maxItems), reachable)
+
+  let page = startPage
+  while (items.length < maxItems && page + 1 < pages && page + 1 <= lastPage) {
+    page += 1
+    const next = await fetchPage(page, perPage)
+    if (!next.items?.length) {
+      break
+    }
+    items.push(...next.items)
+    await onProgress?.(Math.min(items.length, maxItems), reachable)
+  }
+
+  return {
+    ...first,
+    items: items.slice(0, maxItems),
+    found,
+    pages,
+    page: startPage,
+    per_page: perPage,
+    pages_fetched: page - startPage + 1,
+    // True when results remain that were not fetched, because of maxItems or the HH depth limit
+    truncated: items.length > maxItems || found > startPage * perPage + Math.min(items.length, maxItems),
+  }
+}
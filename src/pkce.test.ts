@@ -0,0 +1,45 @@
+import { describe, expect, it } from '@jest/globals'
+import crypto from 'crypto'
+import { verifyCodeChallenge } from './pkce.js'
+
+// RFC 7636 appendix B example
+const codeVerifier = 'dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk'
+const codeChallenge = 'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+
+describe('verifyCodeChallenge', () => {
+  it('accepts the verifier of an S256 challenge', () => {
+    expect(verifyCodeChallenge(codeVerifier, codeChallenge)).toBe(true)
+  })
+
+  it('rejects another verifier', () => {
+    const otherVerifier = crypto.randomBytes(32).toString('base64url')
+
+    expect(verifyCodeChallenge(otherVerifier, codeChallenge)).toBe(false)
+  })
+
+  it('rejects the challenge itself used as the verifier', () => {
+    expect(verifyCodeChallenge(codeChallenge, codeChallenge)).toBe(false)
+  })
+
+  it('rejects verifiers outside the RFC 7636 length and alphabet', () => {
+    const tooShort = codeVerifier.slice(0, 42)
+    const tooLong = codeVerifier.repeat(3)
+    const badCharacters = `${codeVerifier.slice(0, -1)}+`
+
+    for (const verifier of [tooShort, tooLong, badCharacters, '']) {
+      const challenge = crypto.createHash('sha256').update(verifier).digest('base64url')
+      expect(verifyCodeChallenge(verifier, challenge)).toBe(false)
+    }
+  })
+
+  it('rejects a missing or non-string verifier', () => {
+    for (const verifier of [undefined, null, 42, [codeVerifier]]) {
+      expect(verifyCodeChallenge(verifier, codeChallenge)).toBe(false)
+    }
+  })
+
+  it('rejects a challenge of a different length without throwing', () => {
+    expect(verifyCodeChallenge(codeVerifier, codeChallenge.slice(1))).toBe(false)
+    expect(verifyCodeChallenge(codeVerifier, '')).toBe(false)
+  })
+})
@@ -0,0 +1,12 @@
+import crypto from 'crypto'
+
+// Verify PKCE code_verifier against the S256 code_challenge stored at authorization time
+export function verifyCodeChallenge(codeVerifier: unknown, codeChallenge: string) {
+  if (typeof codeVerifier !== 'string' || !/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) {
+    return false
+  }
+
+  const expected = Buffer.from(codeChallenge)
+  const actual = Buffer.from(crypto.createHash('sha256').update(codeVerifier).digest('base64url'))
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from '@jest/globals'
+import { projectResponse, ToolProjection } from './projection.js'
+
+const vacancyProjection: ToolProjection = {
+  omit: ['employer.logo_urls', 'branding'],
+  summary: ['id', 'name', 'salary', 'employer.name'],
+}
+
+const listProjection: ToolProjection = {
+  omit: ['items.employer.logo_urls', 'items.branding'],
+  summary: ['items.id', 'items.name', 'items.employer.name'],
+}
+
+const vacancy = {
+  id: '1',
+  name: 'Backend developer',
+  description: '<p>Long HTML description</p>',
+  salary: { from: 100000, currency: 'RUR' },
+  employer: { id: '2', name: 'HH', logo_urls: { 90: 'https://hh.ru/logo.png' } },
+  branding: { type: 'constructor' },
+}
+
+const page = { items: [vacancy, { ...vacancy, id: '3' }], found: 2, pages: 1, page: 0, per_page: 20 }
+
+describe('projectResponse', () => {
+  it('drops the bulky fields of the default view', () => {
+    expect(projectResponse(vacancy, vacancyProjection, {})).toEqual({
+      id: '1',
+      name: 'Backend developer',
+      description: '<p>Long HTML description</p>',
+      salary: { from: 100000, currency: 'RUR' },
+      employer: { id: '2', name: 'HH' },
+    })
+  })
+
+  it('returns the HH response unchanged in the full view', () => {
+    expect(projectResponse(vacancy, vacancyProjection, { view: 'full' })).toBe(vacancy)
+  })
+
+  it('keeps only the selected fields of a single object', () => {
+    expect(projectResponse(vacancy, vacancyProjection, { fields: ['name'] })).toEqual({ name: 'Backend developer' })
+  })
+
+  it('keeps only the summary fields of a single object', () => {
+    expect(projectResponse(vacancy, vacancyProjection, { view: 'summary' })).toEqual({
+      id: '1',
+      name: 'Backend developer',
+      salary: { from: 100000, currency: 'RUR' },
+      employer: { name: 'HH' },
+    })
+  })
+
+  it('traverses list items and keeps the page counters', () => {
+    expect(projectResponse(page, listProjection, { fields: ['items.name', 'items.employer.id'] })).toEqual({
+      items: [
+        { name: 'Backend developer', employer: { id: '2' } },
+        { name: 'Backend developer', employer: { id: '2' } },
+      ],
+      found: 2,
+      pages: 1,
+      page: 0,
+      per_page: 20,
+    })
+  })
+
+  it('applies the summary view to list items', () => {
+    expect(projectResponse(page, listProjection, { view: 'summary' })).toEqual({
+      items: [
+        { id: '1', name: 'Backend developer', employer: { name: 'HH' } },
+        { id: '3', name: 'Backend developer', employer: { name: 'HH' } },
+      ],
+      found: 2,
+      pages: 1,
+      page: 0,
+      per_page: 20,
+    })
+  })
+
+  it('drops "-" paths on top of the view', () => {
+    expect(projectResponse(vacancy, vacancyProjection, { fields: ['-description', '-employer'] })).toEqual({
+      id: '1',
+      name: 'Backend developer',
+      salary: { from: 100000, currency: 'RUR' },
+    })
+  })
+
+  it('drops "-" paths from the selected fields', () => {
+    expect(
+      projectResponse(page, listProjection, { fields: ['items.id', 'items.employer', '-items.employer.logo_urls'] })
+    ).toEqual({
+      items: [
+        { id: '1', employer: { id: '2', name: 'HH' } },
+        { id: '3', employer: { id: '2', name: 'HH' } },
+      ],
+      found: 2,
+      pages: 1,
+      page: 0,
+      per_page: 20,
+    })
+  })
+})
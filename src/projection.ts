@@ -0,0 +1,125 @@
+import { z } from 'zod'
+
+// Extra argument of read tools that trims HH responses down to the fields an agent needs
+export const fieldsSchema = {
+  fields: z
+    .array(z.string())
+    .describe(
+      'Response fields to return as dot-separated paths, e.g. ["items.name", "items.salary"]; arrays are traversed. ' +
+        'Prefix a path with "-" to drop it instead, e.g. ["-items.snippet"]'
+    )
+    .optional(),
+}
+
+// Extra argument of tools whose OpenAPI operation defines a summary field set
+export const viewSchema = {
+  view: z
+    .enum(['default', 'summary', 'full'])
+    .describe(
+      'default drops bulky fields such as logos, summary keeps only the key fields of each object, full returns the HH response unchanged'
+    )
+    .optional(),
+}
+
+export type ResponseView = 'default' | 'summary' | 'full'
+
+// Per-tool field sets from the x-hh-projection extension of the OpenAPI operation
+export interface ToolProjection {
+  omit?: string[]
+  summary?: string[]
+}
+
+// Paths folded into a tree; `true` marks a whole subtree
+interface FieldTree {
+  [key: string]: FieldTree | true
+}
+
+function toFieldTree(paths: string[]) {
+  const tree: FieldTree = {}
+  for (const path of paths) {
+    const keys = path.split('.').filter(Boolean)
+    let node = tree
+    for (const [index, key] of keys.entries()) {
+      const child = node[key]
+      if (index === keys.length - 1) {
+        node[key] = true
+      } else if (child === true) {
+        break
+      } else {
+        node = node[key] = child ?? {}
+      }
+    }
+  }
+  return tree
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// Page envelopes of list tools, whose counters survive any field selection
+function isPage(value: unknown) {
+  return isObject(value) && Array.isArray(value.items)
+}
+
+function pick(value: unknown, tree: FieldTree, root = false): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => pick(item, tree))
+  }
+  if (!isObject(value)) {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const node = tree[key]
+    if (node === true) {
+      result[key] = child
+    } else if (node) {
+      result[key] = pick(child, node)
+    } else if (root && isPage(value) && !isObject(child) && !Array.isArray(child)) {
+      // Page counters such as found, pages and truncated are always kept
+      result[key] = child
+    }
+  }
+  return result
+}
+
+function omit(value: unknown, tree: FieldTree): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => omit(item, tree))
+  }
+  if (!isObject(value)) {
+    return value
+  }
+
+  const result: Record<string, unknown> = {}
+  for (const [key, child] of Object.entries(value)) {
+    const node = tree[key]
+    if (node !== true) {
+      result[key] = node ? omit(child, node) : child
+    }
+  }
+  return result
+}
+
+// Explicitly selected fields win over the view; "-" paths are dropped from whatever remains
+export function projectResponse(
+  data: unknown,
+  projection: ToolProjection | undefined,
+  options: { view?: ResponseView; fields?: string[] }
+) {
+  const view = options.view ?? 'default'
+  const selected = options.fields?.filter((field) => !field.startsWith('-')) ?? []
+  const omitted = options.fields?.filter((field) => field.startsWith('-')).map((field) => field.slice(1)) ?? []
+
+  let result = data
+  if (selected.length) {
+    result = pick(result, toFieldTree(selected), true)
+  } else if (view === 'summary' && projection?.summary) {
+    result = pick(result, toFieldTree(projection.summary), true)
+  }
+
+  const omitPaths = [...(view === 'default' && !selected.length ? (projection?.omit ?? []) : []), ...omitted]
+  return omitPaths.length ? omit(result, toFieldTree(omitPaths)) : result
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals'
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js'
+import { registerPrompts, Suggest } from './prompts.js'
+
+async function connect(suggest: Suggest) {
+  const mcpServer = new McpServer({ name: 'test', version: '1.0.0' })
+  registerPrompts(mcpServer, suggest, new Set(['get-vacancies', 'search-for-resumes']))
+
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair()
+  await mcpServer.connect(serverTransport)
+  const client = new Client({ name: 'test', version: '1.0.0' })
+  await client.connect(clientTransport)
+  return client
+}
+
+describe('registerPrompts', () => {
+  it('completes optional arguments from their suggest tool', async () => {
+    const calls: [string, string][] = []
+    const client = await connect(async (tool, text) => {
+      calls.push([tool, text])
+      return ['Москва']
+    })
+
+    const result = await client.complete({
+      ref: { type: 'ref/prompt', name: 'find-vacancies' },
+      argument: { name: 'area', value: 'Мос' },
+    })
+
+    expect(result.completion.values).toEqual(['Москва'])
+    expect(calls).toEqual([['get-areas-suggests', 'Мос']])
+  })
+
+  it('completes required arguments', async () => {
+    const calls: string[] = []
+    const client = await connect(async (tool) => {
+      calls.push(tool)
+      return ['Developer']
+    })
+
+    await client.complete({
+      ref: { type: 'ref/prompt', name: 'find-candidates' },
+      argument: { name: 'position', value: 'dev' },
+    })
+
+    expect(calls).toEqual(['get-positions-suggestions'])
+  })
+
+  it('reports suggested arguments as optional', async () => {
+    const client = await connect(async () => [])
+
+    const { prompts } = await client.listPrompts()
+    const findVacancies = prompts.find((prompt) => prompt.name === 'find-vacancies')
+
+    expect(findVacancies?.arguments).toEqual([
+      { name: 'position', required: true },
+      { name: 'area', required: false },
+      { name: 'professionalRole', required: false },
+      { name: 'skills', required: false },
+    ])
+  })
+})
@@ -0,0 +1,104 @@
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { completable } from '@modelcontextprotocol/sdk/server/completable.js'
+import { z } from 'zod'
+
+// Looks values up through an HH suggest tool, e.g. get-areas-suggests, for argument completion
+export type Suggest = (tool: string, text: string) => Promise<string[]>
+
+// An optional prompt argument with completion. The SDK completes an argument only when its outermost schema is
+// Completable, while its argument types expect optional arguments to be ZodOptional; this is the one place that
+// reconciles the two
+function optionalCompletable(complete: (value: string) => Promise<string[]>) {
+  const schema = completable(z.string().optional(), (value) => complete(value ?? ''))
+  return schema as unknown as z.ZodOptional<z.ZodString>
+}
+
+// MCP completes prompt and resource template arguments only, so search prompts carry the completable arguments
+// and tell the model which tool to call with them
+export function registerPrompts(mcpServer: McpServer, suggest: Suggest, enabledTools: Set<string>) {
+  // Optional arguments completed from an HH suggest tool
+  function suggested(tool: string) {
+    return optionalCompletable((value) => suggest(tool, value))
+  }
+
+  function lines(entries: [string, string | undefined][]) {
+    return entries
+      .filter(([, value]) => value)
+      .map(([label, value]) => `- ${label}: ${value}`)
+      .join('\n')
+  }
+
+  function userMessage(text: string) {
+    return { messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }] }
+  }
+
+  if (enabledTools.has('get-vacancies')) {
+    mcpServer.registerPrompt(
+      'find-vacancies',
+      {
+        description: 'Search HH vacancies by position, area, professional role and key skills',
+        argsSchema: {
+          position: completable(z.string(), (value) => suggest('get-vacancy-positions-suggests', value)),
+          area: suggested('get-areas-suggests'),
+          professionalRole: suggested('get-professional-roles-suggests'),
+          skills: suggested('get-skill-set-suggests'),
+        },
+      },
+      ({ position, area, professionalRole, skills }) => {
+        const criteria = lines([
+          ['Position', position],
+          ['Area', area],
+          ['Professional role', professionalRole],
+          ['Key skills, added to the text query', skills],
+        ])
+        return userMessage(
+          `Find vacancies on HH with get-vacancies (view: summary) and list the best matches.\n\n${criteria}\n\n` +
+            'Area and professional role names can be passed as they are; they are resolved to IDs.'
+        )
+      }
+    )
+  }
+
+  if (enabledTools.has('search-for-resumes')) {
+    mcpServer.registerPrompt(
+      'find-candidates',
+      {
+        description: 'Search HH resumes by position, area, key skills and educational institution (employers only)',
+        argsSchema: {
+          position: completable(z.string(), (value) => suggest('get-positions-suggestions', value)),
+          area: suggested('get-areas-suggests'),
+          skills: suggested('get-skill-set-suggests'),
+          educationalInstitution: suggested('get-educational-institutions-suggests'),
+        },
+      },
+      ({ position, area, skills, educationalInstitution }) => {
+        const criteria = lines([
+          ['Position', position],
+          ['Area', area],
+          ['Key skills, added to the text query', skills],
+          ['Educational institution, to look up with get-educational-institutions-suggests', educationalInstitution],
+        ])
+        return userMessage(
+          `Find candidates on HH with search-for-resumes (view: summary) and list the most relevant resumes.\n\n${criteria}`
+        )
+      }
+    )
+  }
+
+  if (enabledTools.has('search-employer')) {
+    mcpServer.registerPrompt(
+      'research-employer',
+      {
+        description: 'Summarize an HH employer and its open vacancies',
+        argsSchema: {
+          company: completable(z.string(), (value) => suggest('get-registered-companies-suggests', value)),
+        },
+      },
+      ({ company }) =>
+        userMessage(
+          `Find the employer "${company}" on HH with search-employer, read it with get-employer-info and summarize ` +
+            'the company and its open vacancies (get-vacancies with employerId).'
+        )
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { setTimeout as sleep } from 'timers/promises'
+
+// Client-side token bucket in front of HH: bursts up to `burst` requests, then `ratePerSecond` on average.
+// A rate of 0 disables limiting.
+export function createRateLimiter(options: { ratePerSecond: number; burst: number }) {
+  const { ratePerSecond, burst } = options
+  let tokens = burst
+  let updatedAt = Date.now()
+  let pausedUntil = 0
+  let queue = Promise.resolve()
+
+  function refill() {
+    const now = Date.now()
+    tokens = Math.min(burst, tokens + ((now - updatedAt) / 1000) * ratePerSecond)
+    updatedAt = now
+  }
+
+  return {
+    // Resolves when the next request may be sent; callers are served in order
+    take(): Promise<void> {
+      if (ratePerSecond <= 0) {
+        return Promise.resolve()
+      }
+
+      const turn = queue.then(async () => {
+        if (pausedUntil > Date.now()) {
+          await sleep(pausedUntil - Date.now())
+        }
+        refill()
+        if (tokens < 1) {
+          await sleep(((1 - tokens) / ratePerSecond) * 1000)
+          refill()
+        }
+        tokens -= 1
+      })
+      queue = turn
+      return turn
+    },
+
+    // Hold every request back, e.g. for the Retry-After of a 429 response
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms)
+      tokens = 0
+    },
+  }
+}
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>
@@ -0,0 +1,211 @@
+// Turns names such as "Moscow", "Москва" or "backend developer" into HH dictionary IDs for search tools.
+// Dictionaries are loaded in both RU and EN locales, so names match in either language.
+export type ReferenceKind = 'area' | 'professionalRole' | 'industry' | 'metro'
+
+export type ReferenceLocale = 'RU' | 'EN'
+
+export interface Resolution {
+  argument: string
+  query: string
+  id: string
+  name: string
+  // Close runners-up, so the agent can correct an unexpected match
+  alternatives?: { id: string; name: string }[]
+}
+
+interface Candidate {
+  id: string
+  names: string[]
+  label: string
+  // Depth in the area tree; broader areas win ties, e.g. the city of Moscow over a village of the same name
+  depth: number
+  cityId?: string
+}
+
+interface Node {
+  id: string
+  name: string
+  [key: string]: unknown
+}
+
+// Numeric IDs, including the dotted ones of metro stations and sub-industries
+const idPattern = /^\d+(\.\d+)?$/
+
+const minScore = 0.4
+
+function children(node: unknown, key: string): Node[] {
+  const value = (node as Record<string, unknown> | undefined)?.[key]
+  return Array.isArray(value) ? value : []
+}
+
+function flattenAreas(nodes: Node[], parent?: string, depth = 0): Candidate[] {
+  return nodes.flatMap((area) => [
+    { id: area.id, names: [area.name], label: parent ? `${area.name}, ${parent}` : area.name, depth },
+    ...flattenAreas(children(area, 'areas'), area.name, depth + 1),
+  ])
+}
+
+// Dictionary payloads, by kind, as flat candidate lists
+const flatteners: Record<ReferenceKind, (data: unknown) => Candidate[]> = {
+  area: (data) => flattenAreas(Array.isArray(data) ? data : []),
+  professionalRole: (data) =>
+    children(data, 'categories').flatMap((category) =>
+      children(category, 'roles').map((role) => ({ id: role.id, names: [role.name], label: role.name, depth: 0 }))
+    ),
+  industry: (data) =>
+    (Array.isArray(data) ? (data as Node[]) : []).flatMap((industry) => [
+      { id: industry.id, names: [industry.name], label: industry.name, depth: 0 },
+      ...children(industry, 'industries').map((child) => ({
+        id: child.id,
+        names: [child.name],
+        label: `${child.name} (${industry.name})`,
+        depth: 1,
+      })),
+    ]),
+  metro: (data) =>
+    (Array.isArray(data) ? (data as Node[]) : []).flatMap((city) =>
+      children(city, 'lines').flatMap((line) => [
+        { id: line.id, names: [line.name], label: `${line.name} line, ${city.name}`, depth: 1, cityId: city.id },
+        ...children(line, 'stations').map((station) => ({
+          id: station.id,
+          names: [station.name],
+          label: `${station.name} (${line.name}, ${city.name})`,
+          depth: 0,
+          cityId: city.id,
+        })),
+      ])
+    ),
+}
+
+function normalize(text: string) {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+function tokenScore(query: string, token: string) {
+  if (query === token) {
+    return 1
+  }
+  if (query.length >= 3 && (token.startsWith(query) || query.startsWith(token))) {
+    return 0.8
+  }
+  const similarity = 1 - levenshtein(query, token) / Math.max(query.length, token.length)
+  return similarity >= 0.75 ? similarity * 0.8 : 0
+}
+
+// 1 for an exact match, 0.9 for a prefix, otherwise the share of query words found in the name, typos allowed
+function score(query: string, name: string) {
+  if (query === name) {
+    return 1
+  }
+  if (name.startsWith(query)) {
+    return 0.9
+  }
+  const nameTokens = name.split(' ')
+  const queryTokens = query.split(' ')
+  const total = queryTokens.reduce(
+    (sum, queryToken) => sum + Math.max(...nameTokens.map((token) => tokenScore(queryToken, token))),
+    0
+  )
+  return (total / queryTokens.length) * 0.85
+}
+
+export function createReferenceResolver(load: (kind: ReferenceKind, locale: ReferenceLocale) => Promise<unknown>) {
+  // Candidates of both locales merged by ID
+  async function candidates(kind: ReferenceKind) {
+    const [ru, en] = await Promise.all([load(kind, 'RU'), load(kind, 'EN')])
+    const merged = new Map<string, Candidate>()
+    for (const candidate of [...flatteners[kind](en), ...flatteners[kind](ru)]) {
+      const existing = merged.get(candidate.id)
+      if (existing) {
+        existing.names.push(...candidate.names)
+      } else {
+        merged.set(candidate.id, { ...candidate, names: [...candidate.names] })
+      }
+    }
+    return [...merged.values()]
+  }
+
+  async function resolve(argument: string, kind: ReferenceKind, query: string, cityIds: string[] = []) {
+    const normalized = normalize(query)
+    let pool = await candidates(kind)
+    // Metro stations repeat across cities; prefer the cities of the searched areas
+    if (kind === 'metro' && pool.some((candidate) => cityIds.includes(candidate.cityId ?? ''))) {
+      pool = pool.filter((candidate) => cityIds.includes(candidate.cityId ?? ''))
+    }
+
+    const ranked = pool
+      .map((candidate) => ({
+        candidate,
+        score: Math.max(...candidate.names.map((name) => score(normalized, normalize(name)))),
+      }))
+      .filter((match) => match.score >= minScore)
+      .sort((a, b) => b.score - a.score || a.candidate.depth - b.candidate.depth)
+
+    if (!ranked.length) {
+      throw new Error(`No ${kind} matches "${query}"; pass an ID from the HH dictionary instead`)
+    }
+
+    const [best, ...rest] = ranked
+    const resolution: Resolution = { argument, query, id: best.candidate.id, name: best.candidate.label }
+    const alternatives = rest.slice(0, 3).filter((match) => match.score >= best.score - 0.1)
+    if (alternatives.length) {
+      resolution.alternatives = alternatives.map(({ candidate }) => ({ id: candidate.id, name: candidate.label }))
+    }
+    return resolution
+  }
+
+  return {
+    resolve,
+
+    // Replace names in the mapped arguments with IDs; values that already are IDs pass through untouched
+    async resolveArguments(args: Record<string, unknown>, mapping: Record<string, ReferenceKind>) {
+      const resolved = { ...args }
+      const resolutions: Resolution[] = []
+      // Areas first, so metro names can be looked up in the searched cities
+      const argNames = Object.keys(mapping).sort(
+        (a, b) => Number(mapping[b] === 'area') - Number(mapping[a] === 'area')
+      )
+
+      for (const argName of argNames) {
+        const value = args[argName]
+        if (value === undefined) {
+          continue
+        }
+
+        const cityIds = argNames.flatMap((name) => (mapping[name] === 'area' ? [resolved[name] ?? []].flat() : []))
+        const values: unknown[] = Array.isArray(value) ? value : [value]
+        const ids = []
+        for (const item of values) {
+          if (typeof item !== 'string' || idPattern.test(item.trim())) {
+            ids.push(item)
+            continue
+          }
+          const resolution = await resolve(argName, mapping[argName], item, cityIds.map(String))
+          resolutions.push(resolution)
+          ids.push(resolution.id)
+        }
+        resolved[argName] = Array.isArray(value) ? ids : ids[0]
+      }
+
+      return { args: resolved, resolutions }
+    },
+  }
+}
+
+export type ReferenceResolver = ReturnType<typeof createReferenceResolver>
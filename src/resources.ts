@@ -0,0 +1,106 @@
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+
+// Reads HH reference data through the tool that serves it, e.g. get-areas, and its dictionary cache
+export type ReadReference = (tool: string, args?: Record<string, unknown>) => Promise<unknown>
+
+interface Named {
+  id: string
+  name: string
+  areas?: Named[]
+}
+
+// Static reference resources, by URI
+const dictionaryResources = [
+  {
+    name: 'dictionaries',
+    uri: 'hh://dictionaries',
+    tool: 'get-dictionaries',
+    description: 'HH dictionaries: experience, employment, schedule, currency, education level and other enums',
+  },
+  {
+    name: 'areas',
+    uri: 'hh://areas',
+    tool: 'get-areas',
+    description: 'Tree of HH areas: countries, regions and cities with their IDs',
+  },
+  {
+    name: 'professional-roles',
+    uri: 'hh://professional-roles',
+    tool: 'get-professional-roles-dictionary',
+    description: 'HH professional roles grouped by category',
+  },
+  {
+    name: 'industries',
+    uri: 'hh://industries',
+    tool: 'get-industries',
+    description: 'HH industries and sub-industries',
+  },
+]
+
+// IDs whose own ID or name starts with the typed value, for URI template completion
+function matchingIds(items: Named[], value: string) {
+  const prefix = value.trim().toLowerCase()
+  return items
+    .filter((item) => item.id.startsWith(prefix) || item.name.toLowerCase().startsWith(prefix))
+    .map((item) => item.id)
+}
+
+function flattenAreas(areas: Named[]): Named[] {
+  return areas.flatMap((area) => [area, ...flattenAreas(area.areas ?? [])])
+}
+
+function jsonContents(uri: URL, data: unknown) {
+  return { contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data) }] }
+}
+
+// Reference data as MCP resources, so clients can attach it as context without a tool call
+export function registerResources(mcpServer: McpServer, read: ReadReference) {
+  for (const { name, uri, tool, description } of dictionaryResources) {
+    mcpServer.registerResource(name, uri, { description, mimeType: 'application/json' }, async (resourceUri) =>
+      jsonContents(resourceUri, await read(tool))
+    )
+  }
+
+  mcpServer.registerResource(
+    'area',
+    new ResourceTemplate('hh://areas/{id}', {
+      list: undefined,
+      complete: {
+        id: async (value) => matchingIds(flattenAreas((await read('get-areas')) as Named[]), value),
+      },
+    }),
+    { description: 'An HH area with its nested areas', mimeType: 'application/json' },
+    async (resourceUri, { id }) => jsonContents(resourceUri, await read('get-areas-from-specified', { areaId: id }))
+  )
+
+  // Cities with a metro, from the /metro dictionary
+  const metroCities = async () => (await read('get-metro-stations')) as Named[]
+
+  mcpServer.registerResource(
+    'metro',
+    new ResourceTemplate('hh://metro/{cityId}', {
+      // A failed lookup must not break resources/list for the other resources
+      list: async () => {
+        try {
+          const cities = await metroCities()
+          return {
+            resources: cities.map((city) => ({
+              uri: `hh://metro/${city.id}`,
+              name: `metro-${city.id}`,
+              title: `Metro of ${city.name}`,
+              mimeType: 'application/json',
+            })),
+          }
+        } catch (error) {
+          console.error(error)
+          return { resources: [] }
+        }
+      },
+      complete: {
+        cityId: async (value) => matchingIds(await metroCities(), value),
+      },
+    }),
+    { description: 'Metro lines and stations of a city', mimeType: 'application/json' },
+    async (resourceUri, { cityId }) => jsonContents(resourceUri, await read('get-metro-stations-in-city', { cityId }))
+  )
+}
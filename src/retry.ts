@@ -0,0 +1,72 @@
+import axios, { AxiosError, AxiosInstance } from 'axios'
+import { setTimeout as sleep } from 'timers/promises'
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    // Retries already made for this request
+    retryCount?: number
+  }
+}
+
+export interface RetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  // Told about every HH throttling response, so other requests can back off too
+  onThrottle?: (delayMs: number) => void
+}
+
+// Only read-only methods: a retried POST could apply to a vacancy twice, and a PUT such as
+// change-negotiation-action sends its message and SMS again when HH already handled the first attempt
+const readOnlyMethods = new Set(['get', 'head', 'options'])
+
+const retryableStatuses = new Set([429, 500, 502, 503, 504])
+
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: unknown) {
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined
+  }
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return seconds * 1000
+  }
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Exponential backoff with jitter: half of the delay is fixed, half random, so parallel clients spread out
+function backoffDelay(retryCount: number, options: RetryOptions) {
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** retryCount)
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+function isRetryable(error: AxiosError) {
+  if (!error.config || !readOnlyMethods.has((error.config.method ?? 'get').toLowerCase())) {
+    return false
+  }
+  // No response: connection reset, DNS failure or timeout
+  return !error.response || retryableStatuses.has(error.response.status)
+}
+
+// Retry transient HH failures (network errors, 429 and 5xx) for idempotent requests
+export function installRetry(client: AxiosInstance, options: RetryOptions) {
+  client.interceptors.response.use(undefined, async (error) => {
+    if (!axios.isAxiosError(error) || !isRetryable(error)) {
+      throw error
+    }
+
+    const config = error.config!
+    const retryCount = config.retryCount ?? 0
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after'])
+    if (error.response?.status === 429) {
+      options.onThrottle?.(retryAfter ?? backoffDelay(retryCount, options))
+    }
+    if (retryCount >= options.maxRetries || (retryAfter !== undefined && retryAfter > options.maxDelayMs)) {
+      throw error
+    }
+
+    await sleep(retryAfter ?? backoffDelay(retryCount, options))
+    return client.request({ ...config, retryCount: retryCount + 1 })
+  })
+}
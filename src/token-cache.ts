@@ -0,0 +1,73 @@
+import crypto from 'crypto'
+
+// Cache of HH token validation results, keyed by a hash of the bearer token so raw tokens are never held as keys
+export interface TokenCacheOptions {
+  ttlMs: number
+  negativeTtlMs: number
+  maxEntries?: number
+}
+
+interface TokenCacheEntry {
+  user?: Record<string, unknown>
+  expiresAt: number
+}
+
+export type TokenValidation = { valid: true; user: Record<string, unknown> } | { valid: false }
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+export function createTokenCache({ ttlMs, negativeTtlMs, maxEntries = 10000 }: TokenCacheOptions) {
+  const entries = new Map<string, TokenCacheEntry>()
+
+  function store(token: string, entry: TokenCacheEntry) {
+    const key = hashToken(token)
+    entries.delete(key)
+
+    // Map keeps insertion order, so the first key is the oldest entry
+    if (entries.size >= maxEntries) {
+      const oldestKey = entries.keys().next().value
+      if (oldestKey !== undefined) {
+        entries.delete(oldestKey)
+      }
+    }
+
+    entries.set(key, entry)
+  }
+
+  return {
+    get(token: string): TokenValidation | undefined {
+      const key = hashToken(token)
+      const entry = entries.get(key)
+      if (!entry) {
+        return undefined
+      }
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return undefined
+      }
+
+      return entry.user ? { valid: true, user: entry.user } : { valid: false }
+    },
+
+    setValid(token: string, user: Record<string, unknown>) {
+      store(token, { user, expiresAt: Date.now() + ttlMs })
+    },
+
+    setInvalid(token: string) {
+      store(token, { expiresAt: Date.now() + negativeTtlMs })
+    },
+
+    invalidate(token: string) {
+      entries.delete(hashToken(token))
+    },
+
+    get size() {
+      return entries.size
+    },
+  }
+}
+
+export type TokenCache = ReturnType<typeof createTokenCache>
@@ -0,0 +1,20 @@
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { readJsonFile } from './json-file.js'
+
+// Local token store used by the stdio transport, where there is no per-request Authorization header
+export const storedTokenSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().optional(),
+  expires_at: z.number().optional(),
+})
+
+export type StoredToken = z.infer<typeof storedTokenSchema>
+
+export const defaultTokenStorePath = path.join(os.homedir(), '.hh-mcp-server', 'token.json')
+
+export async function readStoredToken(filePath: string = defaultTokenStorePath): Promise<StoredToken | undefined> {
+  const data = await readJsonFile(filePath)
+  return data === undefined ? undefined : storedTokenSchema.parse(data)
+}
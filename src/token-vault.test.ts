@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals'
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { createTokenVault, VaultTokens } from './token-vault.js'
+
+const refreshUnavailable = async (refreshToken: string): Promise<VaultTokens> => {
+  throw new Error(`Unexpected refresh with ${refreshToken}`)
+}
+
+describe('createTokenVault', () => {
+  let dir: string
+  let filePath: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'hh-token-vault-'))
+    filePath = path.join(dir, 'token-vault.json')
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  function openVault(encryptionKey = 'vault-key', refresh = refreshUnavailable) {
+    return createTokenVault({ encryptionKey, filePath, refreshMarginSeconds: 300, refresh })
+  }
+
+  it('persists every user of concurrent stores', async () => {
+    const vault = openVault()
+    const userIds = Array.from({ length: 20 }, (_, index) => `user-${index}`)
+
+    await Promise.all(userIds.map((userId) => vault.store(userId, { accessToken: `token-${userId}` })))
+
+    const reloaded = openVault()
+    expect(await Promise.all(userIds.map((userId) => reloaded.getAccessToken(userId)))).toEqual(
+      userIds.map((userId) => `token-${userId}`)
+    )
+    expect(await fs.readdir(dir)).toEqual(['token-vault.json'])
+  })
+
+  it('serves stored users to concurrent first reads', async () => {
+    const vault = openVault()
+    await vault.store('alice', { accessToken: 'alice-token' })
+    await vault.store('bob', { accessToken: 'bob-token' })
+
+    const reloaded = openVault()
+    expect(await Promise.all([reloaded.getAccessToken('alice'), reloaded.getAccessToken('bob')])).toEqual([
+      'alice-token',
+      'bob-token',
+    ])
+  })
+
+  it('keeps the vault file intact when it is opened with the wrong key', async () => {
+    const vault = openVault()
+    await vault.store('alice', { accessToken: 'alice-token' })
+    const stored = await fs.readFile(filePath, 'utf8')
+
+    const rotated = openVault('another-key')
+    await expect(rotated.getAccessToken('alice')).rejects.toThrow()
+    await expect(rotated.store('bob', { accessToken: 'bob-token' })).rejects.toThrow()
+
+    expect(await fs.readFile(filePath, 'utf8')).toBe(stored)
+    expect(await openVault().getAccessToken('alice')).toBe('alice-token')
+  })
+
+  it('does not retry a refused early refresh before the token expires', async () => {
+    let refreshCalls = 0
+    const vault = openVault('vault-key', async () => {
+      refreshCalls++
+      throw new Error('token not expired')
+    })
+    await vault.store('alice', {
+      accessToken: 'alice-token',
+      refreshToken: 'alice-refresh',
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    })
+
+    expect(await vault.getAccessToken('alice')).toBe('alice-token')
+    expect(await vault.getAccessToken('alice')).toBe('alice-token')
+    expect(refreshCalls).toBe(1)
+  })
+
+  it('refreshes tokens that are about to expire', async () => {
+    const vault = openVault('vault-key', async (refreshToken) => ({
+      accessToken: `refreshed-with-${refreshToken}`,
+      refreshToken: 'next-refresh',
+      expiresAt: Math.floor(Date.now() / 1000) + 3600,
+    }))
+    await vault.store('alice', {
+      accessToken: 'alice-token',
+      refreshToken: 'alice-refresh',
+      expiresAt: Math.floor(Date.now() / 1000) + 60,
+    })
+
+    expect(await vault.getAccessToken('alice')).toBe('refreshed-with-alice-refresh')
+    expect(await openVault().getAccessToken('alice')).toBe('refreshed-with-alice-refresh')
+  })
+})
@@ -0,0 +1,160 @@
+import crypto from 'crypto'
+import os from 'os'
+import path from 'path'
+import { z } from 'zod'
+import { readJsonFile, writeJsonFile } from './json-file.js'
+
+// Server-side vault of HH tokens per HH user id, encrypted at rest with AES-256-GCM
+export const vaultTokensSchema = z.object({
+  accessToken: z.string(),
+  refreshToken: z.string().optional(),
+  expiresAt: z.number().optional(),
+})
+
+export type VaultTokens = z.infer<typeof vaultTokensSchema>
+
+const encryptedEntrySchema = z.object({
+  iv: z.string(),
+  tag: z.string(),
+  data: z.string(),
+})
+
+type EncryptedEntry = z.infer<typeof encryptedEntrySchema>
+
+export interface TokenVaultOptions {
+  // Without a key the vault stays in memory only and nothing is written to disk
+  encryptionKey?: string
+  filePath?: string
+  refreshMarginSeconds: number
+  refresh: (refreshToken: string) => Promise<VaultTokens>
+}
+
+export const defaultTokenVaultPath = path.join(os.homedir(), '.hh-mcp-server', 'token-vault.json')
+
+function encrypt(key: Buffer, tokens: VaultTokens): EncryptedEntry {
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv)
+  const data = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf8'), cipher.final()])
+  return {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+}
+
+function decrypt(key: Buffer, entry: EncryptedEntry): VaultTokens {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, Buffer.from(entry.iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(entry.tag, 'base64'))
+  const data = Buffer.concat([decipher.update(Buffer.from(entry.data, 'base64')), decipher.final()])
+  return vaultTokensSchema.parse(JSON.parse(data.toString('utf8')))
+}
+
+export function createTokenVault(options: TokenVaultOptions) {
+  const { encryptionKey, filePath = defaultTokenVaultPath, refreshMarginSeconds, refresh } = options
+  const key = encryptionKey ? crypto.scryptSync(encryptionKey, 'hh-mcp-server-token-vault', 32) : undefined
+  const refreshing = new Map<string, Promise<VaultTokens>>()
+  // Users whose early refresh HH refused, until their access token expires
+  const refreshDeferred = new Map<string, number>()
+  let entries: Promise<Map<string, VaultTokens>> | undefined
+  let writing: Promise<void> = Promise.resolve()
+
+  async function read() {
+    const loaded = new Map<string, VaultTokens>()
+    if (key) {
+      const data = z.record(encryptedEntrySchema).parse((await readJsonFile(filePath)) ?? {})
+      for (const [userId, entry] of Object.entries(data)) {
+        loaded.set(userId, decrypt(key, entry))
+      }
+    }
+    return loaded
+  }
+
+  // Loaded once; concurrent first calls share the same read. A vault that fails to load, e.g. with a rotated key,
+  // is not cached, so a later store() can never overwrite the file with a partial set of users
+  function load() {
+    if (!entries) {
+      const loading = read()
+      loading.catch(() => {
+        if (entries === loading) {
+          entries = undefined
+        }
+      })
+      entries = loading
+    }
+    return entries
+  }
+
+  // Writes are chained so each one sees the tokens of the writes before it
+  function persist() {
+    if (!key) {
+      return Promise.resolve()
+    }
+
+    const write = writing.then(async () => {
+      const data: Record<string, EncryptedEntry> = {}
+      for (const [userId, tokens] of await load()) {
+        data[userId] = encrypt(key, tokens)
+      }
+      await writeJsonFile(filePath, data)
+    })
+    writing = write.catch(() => undefined)
+    return write
+  }
+
+  async function refreshTokens(userId: string, tokens: VaultTokens) {
+    try {
+      const refreshed = await refresh(tokens.refreshToken as string)
+      ;(await load()).set(userId, refreshed)
+      await persist()
+      return refreshed
+    } catch (error) {
+      // HeadHunter refuses to refresh a token that has not expired yet - keep using it, without asking again, until
+      // it does
+      if (!tokens.expiresAt || tokens.expiresAt > Math.floor(Date.now() / 1000)) {
+        refreshDeferred.set(userId, tokens.expiresAt ?? Infinity)
+        return tokens
+      }
+      throw error
+    }
+  }
+
+  return {
+    async store(userId: string, tokens: VaultTokens) {
+      refreshDeferred.delete(userId)
+      ;(await load()).set(userId, tokens)
+      await persist()
+    },
+
+    // Return a valid access token for the user, refreshing it when it is about to expire
+    async getAccessToken(userId: string) {
+      const tokens = (await load()).get(userId)
+      if (!tokens) {
+        return undefined
+      }
+
+      const now = Math.floor(Date.now() / 1000)
+      const expiresSoon = tokens.expiresAt && tokens.expiresAt - refreshMarginSeconds <= now
+      if (!expiresSoon || !tokens.refreshToken || (refreshDeferred.get(userId) ?? 0) > now) {
+        return tokens.accessToken
+      }
+
+      // Concurrent tool calls for one user share a single refresh request
+      let pending = refreshing.get(userId)
+      if (!pending) {
+        pending = refreshTokens(userId, tokens).finally(() => refreshing.delete(userId))
+        refreshing.set(userId, pending)
+      }
+
+      return (await pending).accessToken
+    },
+
+    async remove(userId: string) {
+      refreshDeferred.delete(userId)
+      if ((await load()).delete(userId)) {
+        await persist()
+      }
+    },
+  }
+}
+
+export type TokenVault = ReturnType<typeof createTokenVault>
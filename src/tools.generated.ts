@@ -0,0 +1,4136 @@
+// Generated by scripts/generate-tools.ts from openapi/hh.openapi.json. Do not edit by hand; run `npm run generate`.
+import { z } from 'zod'
+import type { ToolDefinition } from './tools.js'
+
+// HH objects returned as structured content, from #/components/schemas
+export const areaSchema = z
+  .object({ id: z.string().optional(), name: z.string().optional(), url: z.string().nullable().optional() })
+  .passthrough()
+  .nullable()
+  .describe('Area (country, region or city)')
+
+export const salarySchema = z
+  .object({
+    from: z.number().nullable().optional(),
+    to: z.number().nullable().optional(),
+    currency: z.string().nullable().optional(),
+    gross: z.boolean().nullable().optional(),
+  })
+  .passthrough()
+  .nullable()
+  .describe('Salary range; from/to are null when open-ended')
+
+export const employerShortSchema = z
+  .object({
+    id: z.string().nullable().optional(),
+    name: z.string().optional(),
+    url: z.string().nullable().optional(),
+    alternate_url: z.string().nullable().optional(),
+    trusted: z.boolean().nullable().optional(),
+  })
+  .passthrough()
+  .nullable()
+
+export const idNameSchema = z.object({ id: z.string().optional(), name: z.string().optional() }).passthrough()
+
+export const vacancySchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().describe('Vacancy title').optional(),
+    area: areaSchema.optional(),
+    salary: salarySchema.optional(),
+    employer: employerShortSchema.optional(),
+    address: z
+      .object({
+        city: z.string().nullable().optional(),
+        street: z.string().nullable().optional(),
+        building: z.string().nullable().optional(),
+        raw: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    experience: idNameSchema.nullable().optional(),
+    schedule: idNameSchema.nullable().optional(),
+    employment: idNameSchema.nullable().optional(),
+    professional_roles: z.array(idNameSchema).optional(),
+    snippet: z
+      .object({ requirement: z.string().nullable().optional(), responsibility: z.string().nullable().optional() })
+      .passthrough()
+      .nullable()
+      .optional(),
+    type: idNameSchema.nullable().optional(),
+    archived: z.boolean().optional(),
+    published_at: z.string().describe('Publication date, ISO 8601').optional(),
+    created_at: z.string().optional(),
+    url: z.string().optional(),
+    alternate_url: z.string().describe('Vacancy page on hh.ru').optional(),
+    description: z.string().describe('Vacancy description, HTML').optional(),
+    key_skills: z.array(z.object({ name: z.string().optional() }).passthrough()).optional(),
+    contacts: z
+      .object({
+        name: z.string().nullable().optional(),
+        email: z.string().nullable().optional(),
+        phones: z
+          .array(
+            z
+              .object({ formatted: z.string().nullable().optional(), comment: z.string().nullable().optional() })
+              .passthrough()
+          )
+          .nullable()
+          .optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    response_letter_required: z.boolean().optional(),
+    accept_temporary: z.boolean().nullable().optional(),
+    has_test: z.boolean().optional(),
+    apply_alternate_url: z.string().optional(),
+  })
+  .passthrough()
+  .describe('Full vacancy')
+
+export const vacancyShortSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().describe('Vacancy title').optional(),
+    area: areaSchema.optional(),
+    salary: salarySchema.optional(),
+    employer: employerShortSchema.optional(),
+    address: z
+      .object({
+        city: z.string().nullable().optional(),
+        street: z.string().nullable().optional(),
+        building: z.string().nullable().optional(),
+        raw: z.string().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    experience: idNameSchema.nullable().optional(),
+    schedule: idNameSchema.nullable().optional(),
+    employment: idNameSchema.nullable().optional(),
+    professional_roles: z.array(idNameSchema).optional(),
+    snippet: z
+      .object({ requirement: z.string().nullable().optional(), responsibility: z.string().nullable().optional() })
+      .passthrough()
+      .nullable()
+      .optional(),
+    type: idNameSchema.nullable().optional(),
+    archived: z.boolean().optional(),
+    published_at: z.string().describe('Publication date, ISO 8601').optional(),
+    created_at: z.string().optional(),
+    url: z.string().optional(),
+    alternate_url: z.string().describe('Vacancy page on hh.ru').optional(),
+  })
+  .passthrough()
+  .describe('Vacancy as returned in search results')
+
+export const vacancyListSchema = z
+  .object({
+    items: z.array(vacancyShortSchema).optional(),
+    found: z.number().int().describe('Total number of results').optional(),
+    pages: z.number().int().describe('Number of pages available').optional(),
+    page: z.number().int().describe('Current page, starting from 0').optional(),
+    per_page: z.number().int().describe('Items per page').optional(),
+    alternate_url: z.string().nullable().optional(),
+  })
+  .passthrough()
+
+export const resumeSchema = z
+  .object({
+    id: z.string().optional(),
+    title: z.string().describe('Desired position').optional(),
+    first_name: z.string().nullable().optional(),
+    last_name: z.string().nullable().optional(),
+    middle_name: z.string().nullable().optional(),
+    age: z.number().int().nullable().optional(),
+    area: areaSchema.nullable().optional(),
+    salary: z
+      .object({ amount: z.number().nullable().optional(), currency: z.string().nullable().optional() })
+      .passthrough()
+      .nullable()
+      .optional(),
+    total_experience: z.object({ months: z.number().int().nullable().optional() }).passthrough().nullable().optional(),
+    experience: z
+      .array(
+        z
+          .object({
+            company: z.string().nullable().optional(),
+            position: z.string().nullable().optional(),
+            start: z.string().nullable().optional(),
+            end: z.string().nullable().optional(),
+            description: z.string().nullable().optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    education: z.object({ level: idNameSchema.nullable().optional() }).passthrough().nullable().optional(),
+    skill_set: z.array(z.string()).optional(),
+    skills: z.string().nullable().describe('Free-form "about me" text').optional(),
+    professional_roles: z.array(idNameSchema).optional(),
+    status: idNameSchema.nullable().optional(),
+    created_at: z.string().optional(),
+    updated_at: z.string().optional(),
+    url: z.string().nullable().optional(),
+    alternate_url: z.string().describe('Resume page on hh.ru').optional(),
+  })
+  .passthrough()
+  .describe('Resume')
+
+export const negotiationSchema = z
+  .object({
+    id: z.string().optional(),
+    state: idNameSchema.optional(),
+    created_at: z.string().optional(),
+    updated_at: z.string().optional(),
+    has_updates: z.boolean().optional(),
+    viewed_by_opponent: z.boolean().optional(),
+    messages_url: z.string().optional(),
+    counters: z
+      .object({
+        messages: z.number().int().nullable().optional(),
+        unread_messages: z.number().int().nullable().optional(),
+      })
+      .passthrough()
+      .nullable()
+      .optional(),
+    vacancy: vacancyShortSchema.nullable().optional(),
+    resume: resumeSchema.nullable().optional(),
+  })
+  .passthrough()
+  .describe('Response or invitation')
+
+export const negotiationListSchema = z
+  .object({
+    items: z.array(negotiationSchema).optional(),
+    found: z.number().int().describe('Total number of results').optional(),
+    pages: z.number().int().describe('Number of pages available').optional(),
+    page: z.number().int().describe('Current page, starting from 0').optional(),
+    per_page: z.number().int().describe('Items per page').optional(),
+  })
+  .passthrough()
+
+export const employerSchema = z
+  .object({
+    id: z.string().optional(),
+    name: z.string().optional(),
+    type: z.string().nullable().optional(),
+    description: z.string().nullable().describe('Company description, HTML').optional(),
+    site_url: z.string().nullable().optional(),
+    alternate_url: z.string().optional(),
+    vacancies_url: z.string().optional(),
+    open_vacancies: z.number().int().nullable().optional(),
+    area: areaSchema.nullable().optional(),
+    industries: z.array(idNameSchema).optional(),
+    logo_urls: z.object({}).passthrough().nullable().optional(),
+    trusted: z.boolean().optional(),
+  })
+  .passthrough()
+  .describe('Employer')
+
+export const employerListSchema = z
+  .object({
+    items: z.array(employerSchema).optional(),
+    found: z.number().int().describe('Total number of results').optional(),
+    pages: z.number().int().describe('Number of pages available').optional(),
+    page: z.number().int().describe('Current page, starting from 0').optional(),
+    per_page: z.number().int().describe('Items per page').optional(),
+  })
+  .passthrough()
+
+export const resumeListSchema = z
+  .object({
+    items: z.array(resumeSchema).optional(),
+    found: z.number().int().describe('Total number of results').optional(),
+    pages: z.number().int().describe('Number of pages available').optional(),
+    page: z.number().int().describe('Current page, starting from 0').optional(),
+    per_page: z.number().int().describe('Items per page').optional(),
+  })
+  .passthrough()
+
+export const toolDefinitions: ToolDefinition[] = [
+  {
+    name: 'confirm-phone-in-resume',
+    description:
+      'Verify phone with a code. Second step of phone verification: submit the code received by SMS after send-code-for-verify-phone-in-resume. Requires an applicant account.',
+    method: 'POST',
+    path: '/resume_phone_confirm',
+    inputSchema: {
+      phone: z.string().describe('Phone number in international format, e.g. +79001234567'),
+      confirmationCode: z.string().describe('Code from the SMS sent by send-code-for-verify-phone-in-resume'),
+    },
+    parameters: { phone: { name: 'phone', in: 'body' }, confirmationCode: { name: 'confirmation_code', in: 'body' } },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-manager-settings',
+    description:
+      "Manager preferences. Returns the manager's preferences such as the default address and vacancy publication settings. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}/settings',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'get-employer-manager-limits',
+    description:
+      'Daily limit of resume views for current manager. Check how many resume views the current manager has left today before opening resumes in bulk. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}/limits/resume',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'get-employer-addresses',
+    description:
+      "Directory of employer's addresses. Use to find address IDs for vacancies and invitations. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/addresses',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      changedAfter: z.string().describe('Only addresses changed after this moment, ISO 8601').optional(),
+      managerId: z.string().describe('Only vacancies or addresses of this manager').optional(),
+      withManager: z.boolean().describe('Include the manager responsible for each address').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      changedAfter: { name: 'changed_after', in: 'query' },
+      managerId: { name: 'manager_id', in: 'query' },
+      withManager: { name: 'with_manager', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      page: { name: 'page', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'get-employer-managers',
+    description:
+      "Directory of employer's managers. Lists the company's managers; use to find manager IDs. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/managers',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      searchText: z.string().describe('Free-text filter by applicant name, title or email').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      searchText: { name: 'search_text', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'add-employer-manager',
+    description:
+      'Adding a manager. Creates a manager account; requestData follows the HH manager document (name, email, phone, manager type, areas). Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/employers/{employer_id}/managers',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      requestData: z
+        .record(z.any())
+        .describe(
+          'Manager document: first_name, last_name, middle_name, email, phone, position, manager_type and areas'
+        )
+        .optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-employer-manager-types',
+    description:
+      'Directory of manager types and privileges. Lists manager types and their privileges, needed when adding or editing managers. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/manager_types',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-manager-accounts',
+    description:
+      "Manager's work accounts. Lists the work accounts of the current manager; an account ID can be passed as the X-Manager-Account-Id context. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/manager_accounts/mine',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-applicant-phone-info',
+    description:
+      "Get information about the applicant's phone number. Tells whether a verification SMS can be sent to the given phone number and when it can be resent. Requires an applicant account.",
+    method: 'GET',
+    path: '/resume_should_send_sms',
+    inputSchema: { phone: z.string().describe('Phone number in international format, e.g. +79001234567') },
+    parameters: { phone: { name: 'phone', in: 'query' } },
+  },
+  {
+    name: 'get-address',
+    description:
+      'Get address by ID. Returns a single employer address with coordinates and metro stations. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/addresses/{address_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      addressId: z.string().describe('Address ID, from get-employer-addresses'),
+      withManager: z.boolean().describe('Include the manager responsible for each address').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      addressId: { name: 'address_id', in: 'path' },
+      withManager: { name: 'with_manager', in: 'query' },
+    },
+  },
+  {
+    name: 'get-employer-manager',
+    description:
+      "Getting information about a manager. Returns a manager's details, type and assigned areas. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'edit-employer-manager',
+    description:
+      'Editing a manager. Updates a manager; requestData follows the same document as add-employer-manager. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/employers/{employer_id}/managers/{manager_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+      requestData: z.record(z.any()).describe('Manager fields to change, as in add-employer-manager').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      managerId: { name: 'manager_id', in: 'path' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'delete-employer-manager',
+    description:
+      'Deleting a manager. Deletes a manager; their vacancies and saved searches are handed over to successorId. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/employers/{employer_id}/managers/{manager_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+      successorId: z.string().describe("Manager ID who takes over the deleted manager's vacancies and saved searches"),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      managerId: { name: 'manager_id', in: 'path' },
+      successorId: { name: 'successor_id', in: 'query' },
+    },
+  },
+  {
+    name: 'send-code-for-verify-phone-in-resume',
+    description:
+      'Send verification code to the phone number on CV. First step of phone verification for a resume; follow up with confirm-phone-in-resume. Requires an applicant account.',
+    method: 'POST',
+    path: '/resume_phone_generate_code',
+    inputSchema: { phone: z.string().describe('Phone number in international format, e.g. +79001234567') },
+    parameters: { phone: { name: 'phone', in: 'body' } },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'authorize',
+    description:
+      'Getting an access-token. Exchanges an authorization code for tokens or refreshes an expired access token. The app credentials are added by the server. No HH user authorization required.',
+    method: 'POST',
+    path: '/oauth/token',
+    inputSchema: {
+      grantType: z
+        .enum(['authorization_code', 'refresh_token', 'client_credentials'])
+        .describe(
+          'authorization_code to exchange a code, refresh_token to refresh, client_credentials for an application token'
+        ),
+      code: z
+        .string()
+        .describe('Authorization code from the OAuth redirect; required for grantType=authorization_code')
+        .optional(),
+      redirectUri: z.string().describe('Redirect URI used in the authorization request').optional(),
+      refreshToken: z.string().describe('Refresh token; required for grantType=refresh_token').optional(),
+    },
+    parameters: {
+      grantType: { name: 'grant_type', in: 'body' },
+      code: { name: 'code', in: 'body' },
+      redirectUri: { name: 'redirect_uri', in: 'body' },
+      refreshToken: { name: 'refresh_token', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'invalidate-token',
+    description:
+      'Access token invalidation. Revokes the current access token and forgets the cached tokens on this server. Available to applicants and employers.',
+    method: 'DELETE',
+    path: '/oauth/token',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-current-user-info',
+    description:
+      "Info on current authorized user. Start here to learn who is signed in: returns the user's name, email and whether they are an applicant or an employer manager (with employer ID). Available to applicants and employers.",
+    method: 'GET',
+    path: '/me',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'edit-current-user-info',
+    description:
+      "Editing information on the authorized user. Updates the applicant's name or whether they are looking for a job. Requires an applicant account.",
+    method: 'POST',
+    path: '/me',
+    inputSchema: {
+      lastName: z.string().describe('Last name').optional(),
+      firstName: z.string().describe('First name').optional(),
+      middleName: z.string().describe('Middle name').optional(),
+      isInSearch: z.boolean().describe('Whether the applicant is looking for a job').optional(),
+    },
+    parameters: {
+      lastName: { name: 'last_name', in: 'body' },
+      firstName: { name: 'first_name', in: 'body' },
+      middleName: { name: 'middle_name', in: 'body' },
+      isInSearch: { name: 'is_in_search', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-locales-for-resume',
+    description:
+      'The list of available resume locales. Lists languages a resume can be written in. No HH user authorization required.',
+    method: 'GET',
+    path: '/locales/resume',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-locales',
+    description:
+      'The list of available locales. Lists interface locales supported by the API (EN, RU, ...). No HH user authorization required.',
+    method: 'GET',
+    path: '/locales',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-positions-suggestions',
+    description:
+      'Resume position suggestions. Autocompletes a resume title from a few typed letters. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/positions',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-educational-institutions-suggests',
+    description:
+      'Educational institution name suggestions. Autocompletes educational institution names; returns IDs usable in resumes and resume search. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/educational_institutions',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-area-leaves-suggests',
+    description:
+      'Suggestions for all regions that are leaves in the region tree. Autocompletes areas that have no children (cities, towns); use to resolve a city name to an area ID. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/area_leaves',
+    inputSchema: {
+      text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"'),
+      areaId: z.string().describe('Area ID to restrict suggestions to').optional(),
+    },
+    parameters: { text: { name: 'text', in: 'query' }, areaId: { name: 'area_id', in: 'query' } },
+  },
+  {
+    name: 'get-skill-set-suggests',
+    description:
+      'Key skills suggestions. Autocompletes key skills for resumes and vacancies. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/skill_set',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-vacancy-positions-suggests',
+    description: 'Vacancy position suggestions. Autocompletes a vacancy title. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/vacancy_positions',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-professional-roles-suggests',
+    description:
+      'Professional role suggestions. Autocompletes professional roles; use to resolve a job title to professional_role IDs for searches. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/professional_roles',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-resume-search-keywords-suggests',
+    description:
+      'Suggestions for resume search key words. Autocompletes keywords for resume search queries. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/resume_search_keyword',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-areas-suggests',
+    description:
+      'Suggestions for all regions. Autocompletes any area (country, region or city); use to resolve a place name to an area ID. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/areas',
+    inputSchema: {
+      text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"'),
+      areaId: z.string().describe('Area ID to restrict suggestions to').optional(),
+      includeParent: z.boolean().describe('Also suggest parent areas (regions, countries)').optional(),
+    },
+    parameters: {
+      text: { name: 'text', in: 'query' },
+      areaId: { name: 'area_id', in: 'query' },
+      includeParent: { name: 'include_parent', in: 'query' },
+    },
+  },
+  {
+    name: 'get-vacancy-search-keywords',
+    description:
+      'Suggestions for vacancy search key words. Autocompletes keywords for vacancy search queries. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/vacancy_search_keyword',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-fields-of-study-suggestions',
+    description:
+      'Specialization suggestions. Autocompletes fields of study for the education section of a resume. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/fields_of_study',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'get-registered-companies-suggests',
+    description:
+      'Organization suggestions. Autocompletes names of organizations registered on HH. No HH user authorization required.',
+    method: 'GET',
+    path: '/suggests/companies',
+    inputSchema: { text: z.string().describe('Text typed so far, at least 2 characters, e.g. "develop"') },
+    parameters: { text: { name: 'text', in: 'query' } },
+  },
+  {
+    name: 'read-resume-profile',
+    description:
+      'Getting the resume profile schema for a resume. Returns the applicant resume profile for a resume together with its field schema. Requires an applicant account.',
+    method: 'GET',
+    path: '/resume_profile/{resume_id}',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'update-resume-profile',
+    description:
+      'Updating the applicant resume profile. requestData follows the schema returned by read-resume-profile. Requires an applicant account.',
+    method: 'PUT',
+    path: '/resume_profile/{resume_id}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      requestData: z
+        .record(z.any())
+        .describe('Resume profile document following the schema from read-resume-profile')
+        .optional(),
+    },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' }, requestData: { name: 'requestData', in: 'document' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'create-resume-profile',
+    description:
+      'Creating an applicant resume profile. requestData follows the resume profile schema; see get-resume-profile-dictionaries for allowed values. Requires an applicant account.',
+    method: 'POST',
+    path: '/resume_profile',
+    inputSchema: {
+      requestData: z.record(z.any()).describe('Resume profile document following the resume profile schema').optional(),
+    },
+    parameters: { requestData: { name: 'requestData', in: 'document' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-resume-profile-dictionaries',
+    description:
+      'Getting resume profile dictionaries. Dictionaries with allowed values for resume profile fields. Requires an applicant account.',
+    method: 'GET',
+    path: '/resume_profile/dictionaries',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-payable-api-actions',
+    description:
+      "Information about active API services for payable methods. Shows the employer's active paid API services and their remaining quotas. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/services/payable_api_actions/active',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-payable-api-method-access',
+    description:
+      'Checking access to the paid methods. Check whether the manager may call paid methods (such as resume search) before using them. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}/method_access',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'get-saved-vacancy-searches',
+    description:
+      "List of saved vacancy searches. Lists the user's saved vacancy searches with their subscription state and new-vacancy counters. Requires an applicant account.",
+    method: 'GET',
+    path: '/saved_searches/vacancies',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: { page: { name: 'page', in: 'query' }, perPage: { name: 'per_page', in: 'query' } },
+
+    paginated: true,
+  },
+  {
+    name: 'create-saved-vacancy-search',
+    description:
+      'Creating new saved vacancy search. Saves a vacancy search with the same filters as get-vacancies so it can be re-run or subscribed to. Requires an applicant account.',
+    method: 'POST',
+    path: '/saved_searches/vacancies',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      name: z.string().describe('Name of the saved search').optional(),
+      searchField: z
+        .array(z.enum(['name', 'company_name', 'description']))
+        .describe('Where to match text: name (title), company_name or description; all fields by default')
+        .optional(),
+      experience: z
+        .enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6'])
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      metro: z.array(z.string()).describe('Metro station or line IDs from the /metro dictionary').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe('Professional role IDs from the /professional_roles dictionary')
+        .optional(),
+      industry: z.array(z.string()).describe('Industry IDs from the /industries dictionary').optional(),
+      employerId: z.array(z.string()).describe('Employer IDs to search vacancies of, from search-employer').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salary: z
+        .number()
+        .int()
+        .describe(
+          'Desired salary; returns vacancies whose salary range includes it. Combine with currency and onlyWithSalary'
+        )
+        .optional(),
+      label: z.array(z.string()).describe('Vacancy labels from the `vacancy_label` entry of /dictionaries').optional(),
+      onlyWithSalary: z.boolean().describe('Only return vacancies that specify a salary').optional(),
+      period: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .describe('Only vacancies published within this many days, 1-30')
+        .optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      topLat: z
+        .number()
+        .describe(
+          'Upper latitude of the search area in decimal degrees; use together with bottomLat, leftLng and rightLng'
+        )
+        .optional(),
+      bottomLat: z.number().describe('Lower latitude of the search area in decimal degrees').optional(),
+      leftLng: z.number().describe('Left longitude of the search area in decimal degrees').optional(),
+      rightLng: z.number().describe('Right longitude of the search area in decimal degrees').optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance', 'distance'])
+        .describe('Sort order of the results')
+        .optional(),
+      sortPointLat: z
+        .number()
+        .describe('Latitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      sortPointLng: z
+        .number()
+        .describe('Longitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      clusters: z
+        .boolean()
+        .describe(
+          'Also return clusters: counts of results per area, salary range, industry and other filters, useful to refine a query'
+        )
+        .optional(),
+      describeArguments: z.boolean().describe('Also return a description of the applied search arguments').optional(),
+      noMagic: z
+        .boolean()
+        .describe('Disable automatic conversion of the text query into filters (e.g. "moscow" into an area filter)')
+        .optional(),
+      premium: z.boolean().describe('Include premium vacancies in the results; defaults to HH behaviour').optional(),
+      responsesCountEnabled: z
+        .boolean()
+        .describe('Include the number of responses per vacancy (counters.responses)')
+        .optional(),
+      partTime: z
+        .array(z.string())
+        .describe('Part-time options from the `part_time` entry of /dictionaries')
+        .optional(),
+    },
+    parameters: {
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      name: { name: 'name', in: 'query' },
+      searchField: { name: 'search_field', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      employerId: { name: 'employer_id', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salary: { name: 'salary', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      onlyWithSalary: { name: 'only_with_salary', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      topLat: { name: 'top_lat', in: 'query' },
+      bottomLat: { name: 'bottom_lat', in: 'query' },
+      leftLng: { name: 'left_lng', in: 'query' },
+      rightLng: { name: 'right_lng', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      sortPointLat: { name: 'sort_point_lat', in: 'query' },
+      sortPointLng: { name: 'sort_point_lng', in: 'query' },
+      clusters: { name: 'clusters', in: 'query' },
+      describeArguments: { name: 'describe_arguments', in: 'query' },
+      noMagic: { name: 'no_magic', in: 'query' },
+      premium: { name: 'premium', in: 'query' },
+      responsesCountEnabled: { name: 'responses_count_enabled', in: 'query' },
+      partTime: { name: 'part_time', in: 'query' },
+    },
+  },
+  {
+    name: 'get-vacancy-visitors',
+    description:
+      "Vacancy visitors. Lists applicants who viewed one of the employer's vacancies. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/visitors',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'get-vacancy',
+    description:
+      'View a vacancy. Returns the full vacancy: description, salary, requirements, address, employer and contacts. Use after get-vacancies to read details. No HH user authorization required.',
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+
+    projection: {
+      omit: ['employer.logo_urls', 'employer.vacancies_url', 'branding', 'relations', 'insider_interview'],
+      summary: ['id', 'name', 'salary', 'employer.id', 'employer.name', 'area.name', 'published_at', 'alternate_url'],
+    },
+    outputSchema: vacancySchema.shape,
+  },
+  {
+    name: 'edit-vacancy',
+    description:
+      'Editing vacancies. Updates a published vacancy; requestData follows the vacancy document used by publish-vacancy. Check get-vacancy-conditions for field rules. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/vacancies/{vacancy_id}',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+      ignoreDuplicates: z
+        .boolean()
+        .describe('Publish even if HH reports the vacancy duplicates an existing one')
+        .optional(),
+      ignoreReplacementWarning: z
+        .boolean()
+        .describe('Save even if HH warns that the change replaces the vacancy')
+        .optional(),
+      requestData: z.record(z.any()).describe('Vacancy fields to change, as in publish-vacancy').optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'path' },
+      ignoreDuplicates: { name: 'ignore_duplicates', in: 'query' },
+      ignoreReplacementWarning: { name: 'ignore_replacement_warning', in: 'query' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-blacklisted-vacancies',
+    description:
+      'List of hidden vacancies. Lists vacancies the applicant has hidden from search results. Requires an applicant account.',
+    method: 'GET',
+    path: '/vacancies/blacklisted',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-vacancies',
+    description:
+      'Search for vacancies. Main vacancy search. Filter by text, area, professional role, salary, experience and more; results are paginated (page, perPage) and capped at 2000 items per query. Use get-vacancy for full details. No HH user authorization required.',
+    method: 'GET',
+    path: '/vacancies',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      searchField: z
+        .array(z.enum(['name', 'company_name', 'description']))
+        .describe('Where to match text: name (title), company_name or description; all fields by default')
+        .optional(),
+      experience: z
+        .enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6'])
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe(
+          'Area IDs from the /areas dictionary, or names such as "Moscow" or "Москва" resolved to IDs; repeat to search in several areas'
+        )
+        .optional(),
+      metro: z
+        .array(z.string())
+        .describe(
+          'Metro station or line IDs from the /metro dictionary, or station or line names such as "Arbatskaya" resolved to IDs'
+        )
+        .optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe(
+          'Professional role IDs from the /professional_roles dictionary, or role names such as "backend developer" resolved to IDs'
+        )
+        .optional(),
+      industry: z
+        .array(z.string())
+        .describe('Industry IDs from the /industries dictionary, or industry names resolved to IDs')
+        .optional(),
+      employerId: z.array(z.string()).describe('Employer IDs to search vacancies of, from search-employer').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salary: z
+        .number()
+        .int()
+        .describe(
+          'Desired salary; returns vacancies whose salary range includes it. Combine with currency and onlyWithSalary'
+        )
+        .optional(),
+      label: z.array(z.string()).describe('Vacancy labels from the `vacancy_label` entry of /dictionaries').optional(),
+      onlyWithSalary: z.boolean().describe('Only return vacancies that specify a salary').optional(),
+      period: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .describe('Only vacancies published within this many days, 1-30')
+        .optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      topLat: z
+        .number()
+        .describe(
+          'Upper latitude of the search area in decimal degrees; use together with bottomLat, leftLng and rightLng'
+        )
+        .optional(),
+      bottomLat: z.number().describe('Lower latitude of the search area in decimal degrees').optional(),
+      leftLng: z.number().describe('Left longitude of the search area in decimal degrees').optional(),
+      rightLng: z.number().describe('Right longitude of the search area in decimal degrees').optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance', 'distance'])
+        .describe('Sort order of the results')
+        .optional(),
+      sortPointLat: z
+        .number()
+        .describe('Latitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      sortPointLng: z
+        .number()
+        .describe('Longitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      clusters: z
+        .boolean()
+        .describe(
+          'Also return clusters: counts of results per area, salary range, industry and other filters, useful to refine a query'
+        )
+        .optional(),
+      describeArguments: z.boolean().describe('Also return a description of the applied search arguments').optional(),
+      noMagic: z
+        .boolean()
+        .describe('Disable automatic conversion of the text query into filters (e.g. "moscow" into an area filter)')
+        .optional(),
+      premium: z.boolean().describe('Include premium vacancies in the results; defaults to HH behaviour').optional(),
+      responsesCountEnabled: z
+        .boolean()
+        .describe('Include the number of responses per vacancy (counters.responses)')
+        .optional(),
+      partTime: z
+        .array(z.string())
+        .describe('Part-time options from the `part_time` entry of /dictionaries')
+        .optional(),
+      acceptTemporary: z.boolean().describe('Only vacancies that accept temporary employment').optional(),
+      employmentForm: z
+        .array(z.string())
+        .describe('Employment forms from the `employment_form` entry of /dictionaries')
+        .optional(),
+      workScheduleByDays: z
+        .array(z.string())
+        .describe('Work schedules from the `work_schedule_by_days` entry of /dictionaries')
+        .optional(),
+      workingHours: z
+        .array(z.string())
+        .describe('Working hours from the `working_hours` entry of /dictionaries')
+        .optional(),
+      workFormat: z.array(z.string()).describe('Work formats from the `work_format` entry of /dictionaries').optional(),
+      excludedText: z.string().describe('Words that must not appear in the vacancy, comma-separated').optional(),
+      education: z
+        .array(z.string())
+        .describe('Education levels from the `education_level` entry of /dictionaries')
+        .optional(),
+    },
+    parameters: {
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      searchField: { name: 'search_field', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      employerId: { name: 'employer_id', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salary: { name: 'salary', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      onlyWithSalary: { name: 'only_with_salary', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      topLat: { name: 'top_lat', in: 'query' },
+      bottomLat: { name: 'bottom_lat', in: 'query' },
+      leftLng: { name: 'left_lng', in: 'query' },
+      rightLng: { name: 'right_lng', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      sortPointLat: { name: 'sort_point_lat', in: 'query' },
+      sortPointLng: { name: 'sort_point_lng', in: 'query' },
+      clusters: { name: 'clusters', in: 'query' },
+      describeArguments: { name: 'describe_arguments', in: 'query' },
+      noMagic: { name: 'no_magic', in: 'query' },
+      premium: { name: 'premium', in: 'query' },
+      responsesCountEnabled: { name: 'responses_count_enabled', in: 'query' },
+      partTime: { name: 'part_time', in: 'query' },
+      acceptTemporary: { name: 'accept_temporary', in: 'query' },
+      employmentForm: { name: 'employment_form', in: 'query' },
+      workScheduleByDays: { name: 'work_schedule_by_days', in: 'query' },
+      workingHours: { name: 'working_hours', in: 'query' },
+      workFormat: { name: 'work_format', in: 'query' },
+      excludedText: { name: 'excluded_text', in: 'query' },
+      education: { name: 'education', in: 'query' },
+    },
+
+    paginated: true,
+    maxDepth: 2000,
+
+    projection: {
+      omit: [
+        'items.employer.logo_urls',
+        'items.employer.vacancies_url',
+        'items.branding',
+        'items.relations',
+        'items.insider_interview',
+      ],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.salary',
+        'items.employer.id',
+        'items.employer.name',
+        'items.area.name',
+        'items.published_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: vacancyListSchema.shape,
+  },
+  {
+    name: 'publish-vacancy',
+    description:
+      'Publishing job vacancies. Publishes a new vacancy; requestData is the vacancy document. Check get-vacancy-conditions and get-available-vacancy-types first. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/vacancies',
+    inputSchema: {
+      ignoreDuplicates: z
+        .boolean()
+        .describe('Publish even if HH reports the vacancy duplicates an existing one')
+        .optional(),
+      requestData: z
+        .record(z.any())
+        .describe(
+          'Vacancy document: name, description, area, professional_roles, salary_range, experience, employment_form, work_format, address, contacts, type and billing_type'
+        )
+        .optional(),
+    },
+    parameters: {
+      ignoreDuplicates: { name: 'ignore_duplicates', in: 'query' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-vacancies-related-to-vacancy',
+    description:
+      'Search for vacancies related to a vacancy. Vacancies that applicants who viewed this vacancy were also interested in; accepts the get-vacancies filters. No HH user authorization required.',
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/related_vacancies',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      searchField: z
+        .array(z.enum(['name', 'company_name', 'description']))
+        .describe('Where to match text: name (title), company_name or description; all fields by default')
+        .optional(),
+      experience: z
+        .enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6'])
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      metro: z.array(z.string()).describe('Metro station or line IDs from the /metro dictionary').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe('Professional role IDs from the /professional_roles dictionary')
+        .optional(),
+      industry: z.array(z.string()).describe('Industry IDs from the /industries dictionary').optional(),
+      employerId: z.array(z.string()).describe('Employer IDs to search vacancies of, from search-employer').optional(),
+      excludedEmployerId: z.array(z.string()).describe('Employer IDs whose vacancies should be excluded').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salary: z
+        .number()
+        .int()
+        .describe(
+          'Desired salary; returns vacancies whose salary range includes it. Combine with currency and onlyWithSalary'
+        )
+        .optional(),
+      label: z.array(z.string()).describe('Vacancy labels from the `vacancy_label` entry of /dictionaries').optional(),
+      onlyWithSalary: z.boolean().describe('Only return vacancies that specify a salary').optional(),
+      period: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .describe('Only vacancies published within this many days, 1-30')
+        .optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      topLat: z
+        .number()
+        .describe(
+          'Upper latitude of the search area in decimal degrees; use together with bottomLat, leftLng and rightLng'
+        )
+        .optional(),
+      bottomLat: z.number().describe('Lower latitude of the search area in decimal degrees').optional(),
+      leftLng: z.number().describe('Left longitude of the search area in decimal degrees').optional(),
+      rightLng: z.number().describe('Right longitude of the search area in decimal degrees').optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance', 'distance'])
+        .describe('Sort order of the results')
+        .optional(),
+      sortPointLat: z
+        .number()
+        .describe('Latitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      sortPointLng: z
+        .number()
+        .describe('Longitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      clusters: z
+        .boolean()
+        .describe(
+          'Also return clusters: counts of results per area, salary range, industry and other filters, useful to refine a query'
+        )
+        .optional(),
+      describeArguments: z.boolean().describe('Also return a description of the applied search arguments').optional(),
+      noMagic: z
+        .boolean()
+        .describe('Disable automatic conversion of the text query into filters (e.g. "moscow" into an area filter)')
+        .optional(),
+      premium: z.boolean().describe('Include premium vacancies in the results; defaults to HH behaviour').optional(),
+      responsesCountEnabled: z
+        .boolean()
+        .describe('Include the number of responses per vacancy (counters.responses)')
+        .optional(),
+      partTime: z
+        .array(z.string())
+        .describe('Part-time options from the `part_time` entry of /dictionaries')
+        .optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      searchField: { name: 'search_field', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      employerId: { name: 'employer_id', in: 'query' },
+      excludedEmployerId: { name: 'excluded_employer_id', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salary: { name: 'salary', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      onlyWithSalary: { name: 'only_with_salary', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      topLat: { name: 'top_lat', in: 'query' },
+      bottomLat: { name: 'bottom_lat', in: 'query' },
+      leftLng: { name: 'left_lng', in: 'query' },
+      rightLng: { name: 'right_lng', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      sortPointLat: { name: 'sort_point_lat', in: 'query' },
+      sortPointLng: { name: 'sort_point_lng', in: 'query' },
+      clusters: { name: 'clusters', in: 'query' },
+      describeArguments: { name: 'describe_arguments', in: 'query' },
+      noMagic: { name: 'no_magic', in: 'query' },
+      premium: { name: 'premium', in: 'query' },
+      responsesCountEnabled: { name: 'responses_count_enabled', in: 'query' },
+      partTime: { name: 'part_time', in: 'query' },
+    },
+
+    paginated: true,
+    maxDepth: 2000,
+
+    projection: {
+      omit: [
+        'items.employer.logo_urls',
+        'items.employer.vacancies_url',
+        'items.branding',
+        'items.relations',
+        'items.insider_interview',
+      ],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.salary',
+        'items.employer.id',
+        'items.employer.name',
+        'items.area.name',
+        'items.published_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: vacancyListSchema.shape,
+  },
+  {
+    name: 'get-saved-vacancy-search',
+    description:
+      'Obtaining single saved vacancy search. Returns one saved vacancy search with its filters and a link to the results. Requires an applicant account.',
+    method: 'GET',
+    path: '/saved_searches/vacancies/{id}',
+    inputSchema: { id: z.string().describe('Saved vacancy search ID, from get-saved-vacancy-searches') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'update-saved-vacancy-search',
+    description:
+      'Updating saved vacancy search. Renames a saved vacancy search or toggles its email subscription. Requires an applicant account.',
+    method: 'PUT',
+    path: '/saved_searches/vacancies/{id}',
+    inputSchema: {
+      id: z.string().describe('Saved vacancy search ID, from get-saved-vacancy-searches'),
+      name: z.string().describe('Name of the saved search').optional(),
+      subscription: z.boolean().describe('Whether to receive new results of the saved search by email').optional(),
+    },
+    parameters: {
+      id: { name: 'id', in: 'path' },
+      name: { name: 'name', in: 'query' },
+      subscription: { name: 'subscription', in: 'query' },
+    },
+  },
+  {
+    name: 'delete-saved-vacancy-search',
+    description: 'Deleting saved vacancy search. Deletes a saved vacancy search. Requires an applicant account.',
+    method: 'DELETE',
+    path: '/saved_searches/vacancies/{id}',
+    inputSchema: { id: z.string().describe('Saved vacancy search ID, from get-saved-vacancy-searches') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancies-similar-to-vacancy',
+    description:
+      'Search for vacancies similar to a vacancy. Vacancies similar in content to the given one; accepts the get-vacancies filters. No HH user authorization required.',
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/similar_vacancies',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      searchField: z
+        .array(z.enum(['name', 'company_name', 'description']))
+        .describe('Where to match text: name (title), company_name or description; all fields by default')
+        .optional(),
+      experience: z
+        .enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6'])
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      metro: z.array(z.string()).describe('Metro station or line IDs from the /metro dictionary').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe('Professional role IDs from the /professional_roles dictionary')
+        .optional(),
+      industry: z.array(z.string()).describe('Industry IDs from the /industries dictionary').optional(),
+      employerId: z.array(z.string()).describe('Employer IDs to search vacancies of, from search-employer').optional(),
+      excludedEmployerId: z.array(z.string()).describe('Employer IDs whose vacancies should be excluded').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salary: z
+        .number()
+        .int()
+        .describe(
+          'Desired salary; returns vacancies whose salary range includes it. Combine with currency and onlyWithSalary'
+        )
+        .optional(),
+      label: z.array(z.string()).describe('Vacancy labels from the `vacancy_label` entry of /dictionaries').optional(),
+      onlyWithSalary: z.boolean().describe('Only return vacancies that specify a salary').optional(),
+      period: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .describe('Only vacancies published within this many days, 1-30')
+        .optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      topLat: z
+        .number()
+        .describe(
+          'Upper latitude of the search area in decimal degrees; use together with bottomLat, leftLng and rightLng'
+        )
+        .optional(),
+      bottomLat: z.number().describe('Lower latitude of the search area in decimal degrees').optional(),
+      leftLng: z.number().describe('Left longitude of the search area in decimal degrees').optional(),
+      rightLng: z.number().describe('Right longitude of the search area in decimal degrees').optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance', 'distance'])
+        .describe('Sort order of the results')
+        .optional(),
+      sortPointLat: z
+        .number()
+        .describe('Latitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      sortPointLng: z
+        .number()
+        .describe('Longitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      clusters: z
+        .boolean()
+        .describe(
+          'Also return clusters: counts of results per area, salary range, industry and other filters, useful to refine a query'
+        )
+        .optional(),
+      describeArguments: z.boolean().describe('Also return a description of the applied search arguments').optional(),
+      noMagic: z
+        .boolean()
+        .describe('Disable automatic conversion of the text query into filters (e.g. "moscow" into an area filter)')
+        .optional(),
+      premium: z.boolean().describe('Include premium vacancies in the results; defaults to HH behaviour').optional(),
+      responsesCountEnabled: z
+        .boolean()
+        .describe('Include the number of responses per vacancy (counters.responses)')
+        .optional(),
+      partTime: z
+        .array(z.string())
+        .describe('Part-time options from the `part_time` entry of /dictionaries')
+        .optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      searchField: { name: 'search_field', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      employerId: { name: 'employer_id', in: 'query' },
+      excludedEmployerId: { name: 'excluded_employer_id', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salary: { name: 'salary', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      onlyWithSalary: { name: 'only_with_salary', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      topLat: { name: 'top_lat', in: 'query' },
+      bottomLat: { name: 'bottom_lat', in: 'query' },
+      leftLng: { name: 'left_lng', in: 'query' },
+      rightLng: { name: 'right_lng', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      sortPointLat: { name: 'sort_point_lat', in: 'query' },
+      sortPointLng: { name: 'sort_point_lng', in: 'query' },
+      clusters: { name: 'clusters', in: 'query' },
+      describeArguments: { name: 'describe_arguments', in: 'query' },
+      noMagic: { name: 'no_magic', in: 'query' },
+      premium: { name: 'premium', in: 'query' },
+      responsesCountEnabled: { name: 'responses_count_enabled', in: 'query' },
+      partTime: { name: 'part_time', in: 'query' },
+    },
+
+    paginated: true,
+    maxDepth: 2000,
+
+    projection: {
+      omit: [
+        'items.employer.logo_urls',
+        'items.employer.vacancies_url',
+        'items.branding',
+        'items.relations',
+        'items.insider_interview',
+      ],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.salary',
+        'items.employer.id',
+        'items.employer.name',
+        'items.area.name',
+        'items.published_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: vacancyListSchema.shape,
+  },
+  {
+    name: 'get-vacancy-upgrade-list',
+    description:
+      'List of vacancy upgrades. Lists paid upgrades (e.g. raising in search) available for a vacancy. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/upgrades',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancies-similar-to-resume',
+    description:
+      "Search for vacancies similar to a resume. Vacancies recommended for one of the applicant's resumes; accepts the get-vacancies filters. Requires an applicant account.",
+    method: 'GET',
+    path: '/resumes/{resume_id}/similar_vacancies',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      searchField: z
+        .array(z.enum(['name', 'company_name', 'description']))
+        .describe('Where to match text: name (title), company_name or description; all fields by default')
+        .optional(),
+      experience: z
+        .enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6'])
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      metro: z.array(z.string()).describe('Metro station or line IDs from the /metro dictionary').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe('Professional role IDs from the /professional_roles dictionary')
+        .optional(),
+      industry: z.array(z.string()).describe('Industry IDs from the /industries dictionary').optional(),
+      employerId: z.array(z.string()).describe('Employer IDs to search vacancies of, from search-employer').optional(),
+      excludedEmployerId: z.array(z.string()).describe('Employer IDs whose vacancies should be excluded').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salary: z
+        .number()
+        .int()
+        .describe(
+          'Desired salary; returns vacancies whose salary range includes it. Combine with currency and onlyWithSalary'
+        )
+        .optional(),
+      label: z.array(z.string()).describe('Vacancy labels from the `vacancy_label` entry of /dictionaries').optional(),
+      onlyWithSalary: z.boolean().describe('Only return vacancies that specify a salary').optional(),
+      period: z
+        .number()
+        .int()
+        .min(1)
+        .max(30)
+        .describe('Only vacancies published within this many days, 1-30')
+        .optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      topLat: z
+        .number()
+        .describe(
+          'Upper latitude of the search area in decimal degrees; use together with bottomLat, leftLng and rightLng'
+        )
+        .optional(),
+      bottomLat: z.number().describe('Lower latitude of the search area in decimal degrees').optional(),
+      leftLng: z.number().describe('Left longitude of the search area in decimal degrees').optional(),
+      rightLng: z.number().describe('Right longitude of the search area in decimal degrees').optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance', 'distance'])
+        .describe('Sort order of the results')
+        .optional(),
+      sortPointLat: z
+        .number()
+        .describe('Latitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      sortPointLng: z
+        .number()
+        .describe('Longitude of the point to sort by distance from; requires orderBy=distance')
+        .optional(),
+      clusters: z
+        .boolean()
+        .describe(
+          'Also return clusters: counts of results per area, salary range, industry and other filters, useful to refine a query'
+        )
+        .optional(),
+      describeArguments: z.boolean().describe('Also return a description of the applied search arguments').optional(),
+      noMagic: z
+        .boolean()
+        .describe('Disable automatic conversion of the text query into filters (e.g. "moscow" into an area filter)')
+        .optional(),
+      premium: z.boolean().describe('Include premium vacancies in the results; defaults to HH behaviour').optional(),
+      responsesCountEnabled: z
+        .boolean()
+        .describe('Include the number of responses per vacancy (counters.responses)')
+        .optional(),
+      partTime: z
+        .array(z.string())
+        .describe('Part-time options from the `part_time` entry of /dictionaries')
+        .optional(),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      searchField: { name: 'search_field', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      employerId: { name: 'employer_id', in: 'query' },
+      excludedEmployerId: { name: 'excluded_employer_id', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salary: { name: 'salary', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      onlyWithSalary: { name: 'only_with_salary', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      topLat: { name: 'top_lat', in: 'query' },
+      bottomLat: { name: 'bottom_lat', in: 'query' },
+      leftLng: { name: 'left_lng', in: 'query' },
+      rightLng: { name: 'right_lng', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      sortPointLat: { name: 'sort_point_lat', in: 'query' },
+      sortPointLng: { name: 'sort_point_lng', in: 'query' },
+      clusters: { name: 'clusters', in: 'query' },
+      describeArguments: { name: 'describe_arguments', in: 'query' },
+      noMagic: { name: 'no_magic', in: 'query' },
+      premium: { name: 'premium', in: 'query' },
+      responsesCountEnabled: { name: 'responses_count_enabled', in: 'query' },
+      partTime: { name: 'part_time', in: 'query' },
+    },
+
+    paginated: true,
+    maxDepth: 2000,
+
+    projection: {
+      omit: [
+        'items.employer.logo_urls',
+        'items.employer.vacancies_url',
+        'items.branding',
+        'items.relations',
+        'items.insider_interview',
+      ],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.salary',
+        'items.employer.id',
+        'items.employer.name',
+        'items.area.name',
+        'items.published_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: vacancyListSchema.shape,
+  },
+  {
+    name: 'get-favorite-vacancies',
+    description:
+      'List of favorited vacancies. Lists vacancies the applicant added to favorites. Requires an applicant account.',
+    method: 'GET',
+    path: '/vacancies/favorited',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: { page: { name: 'page', in: 'query' }, perPage: { name: 'per_page', in: 'query' } },
+
+    paginated: true,
+
+    projection: {
+      omit: [
+        'items.employer.logo_urls',
+        'items.employer.vacancies_url',
+        'items.branding',
+        'items.relations',
+        'items.insider_interview',
+      ],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.salary',
+        'items.employer.id',
+        'items.employer.name',
+        'items.area.name',
+        'items.published_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: vacancyListSchema.shape,
+  },
+  {
+    name: 'add-vacancy-to-blacklisted',
+    description:
+      "Adding a vacancy in the blacklist. Hides a vacancy from the applicant's search results. Requires an applicant account.",
+    method: 'PUT',
+    path: '/vacancies/blacklisted/{vacancy_id}',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'delete-vacancy-from-blacklisted',
+    description:
+      'Deleting a vacancy from the blacklist. Shows a previously hidden vacancy in search results again. Requires an applicant account.',
+    method: 'DELETE',
+    path: '/vacancies/blacklisted/{vacancy_id}',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-active-vacancy-list',
+    description:
+      "View a published vacancy list. Lists the employer's published vacancies with response counters; use to find vacancy IDs. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/vacancies/active',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      managerId: z.string().describe('Only vacancies or addresses of this manager').optional(),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      resumeId: z.string().describe('Resume ID').optional(),
+      orderBy: z.string().describe('Sort order of the results').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      managerId: { name: 'manager_id', in: 'query' },
+      text: { name: 'text', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      resumeId: { name: 'resume_id', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'get-hidden-vacancies',
+    description:
+      "Deleted vacancy list. Lists the employer's deleted vacancies, which can be restored. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/vacancies/hidden',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Only vacancies or addresses of this manager').optional(),
+      orderBy: z.string().describe('Sort order of the results').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      managerId: { name: 'manager_id', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      page: { name: 'page', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'add-vacancy-to-hidden',
+    description:
+      'Deleting vacancies. Deletes (hides) an employer vacancy; it can be restored with restore-vacancy-from-hidden. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/employers/{employer_id}/vacancies/hidden/{vacancy_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'restore-vacancy-from-hidden',
+    description:
+      'Restoring deleted vacancies. Restores a deleted employer vacancy to the archive. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/employers/{employer_id}/vacancies/hidden/{vacancy_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancy-conditions',
+    description:
+      'Conditions for filling out fields when publishing and editing vacancies. Field limits and rules for vacancy documents; read before publish-vacancy or edit-vacancy. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/vacancy_conditions',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-prolongation-vacancy-info',
+    description:
+      'Information about vacancy prolongation possibility. Tells whether a vacancy can be prolonged and what it costs. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/prolongate',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'vacancy-prolongation',
+    description:
+      'Vacancy prolongation. Prolongs a published vacancy; check get-prolongation-vacancy-info first. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/vacancies/{vacancy_id}/prolongate',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'add-vacancy-to-archive',
+    description:
+      'Archiving vacancies. Unpublishes a vacancy by moving it to the archive. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/employers/{employer_id}/vacancies/archived/{vacancy_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-pref-negotiations-order',
+    description:
+      'Viewing preferred options for sorting responses. Shows the available and selected sort orders for responses to a vacancy. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/vacancies/{id}/preferred_negotiations_order',
+    inputSchema: { id: z.string().describe('Vacancy ID') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'put-pref-negotiations-order',
+    description:
+      'Changing preferred options for sorting responses. Sets the preferred sort order for responses to a vacancy. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/vacancies/{id}/preferred_negotiations_order',
+    inputSchema: {
+      id: z.string().describe('Vacancy ID'),
+      orderType: z.string().describe('Sort order ID, from get-pref-negotiations-order'),
+    },
+    parameters: { id: { name: 'id', in: 'path' }, orderType: { name: 'order_type', in: 'body' } },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'add-vacancy-to-favorite',
+    description:
+      "Add a vacancy in favorited. Adds a vacancy to the applicant's favorites. Requires an applicant account.",
+    method: 'PUT',
+    path: '/vacancies/favorited/{vacancy_id}',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'delete-vacancy-from-favorite',
+    description:
+      "Delete a vacancy from favorited. Removes a vacancy from the applicant's favorites. Requires an applicant account.",
+    method: 'DELETE',
+    path: '/vacancies/favorited/{vacancy_id}',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-available-vacancy-types',
+    description:
+      'Possible options available to current manager for publishing of vacancies. Lists publication types (standard, premium, free, ...) and how many the manager can still publish. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}/vacancies/available_types',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancy-stats',
+    description:
+      "Vacancy statistics. Daily views and responses for one of the employer's vacancies. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/stats',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-archived-vacancies',
+    description:
+      "Archived vacancy list. Lists the employer's archived vacancies. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/vacancies/archived',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Only vacancies or addresses of this manager').optional(),
+      orderBy: z.string().describe('Sort order of the results').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      managerId: { name: 'manager_id', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      page: { name: 'page', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'get-artifacts-portfolio-conditions',
+    description:
+      'Conditions for uploading portfolio. Limits on portfolio uploads: allowed formats, sizes and counts. Requires an applicant account.',
+    method: 'GET',
+    path: '/artifacts/portfolio/conditions',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'edit-artifact',
+    description:
+      'Editing an artifact. Changes the description of an uploaded photo or portfolio item. Requires an applicant account.',
+    method: 'PUT',
+    path: '/artifacts/{id}',
+    inputSchema: {
+      id: z.string().describe('Artifact ID, from get-artifact-photos or get-artifacts-portfolio'),
+      description: z.string().describe('Description of the artifact, e.g. a caption for a portfolio image'),
+    },
+    parameters: { id: { name: 'id', in: 'path' }, description: { name: 'description', in: 'body' } },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'delete-artifact',
+    description: 'Deleting an artifact. Deletes an uploaded photo or portfolio item. Requires an applicant account.',
+    method: 'DELETE',
+    path: '/artifacts/{id}',
+    inputSchema: { id: z.string().describe('Artifact ID, from get-artifact-photos or get-artifacts-portfolio') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'load-artifact',
+    description:
+      'Uploading an artifact. Uploads a photo or portfolio image; pass the file base64-encoded with its file name. The returned ID can be used in resumes. Requires an applicant account.',
+    method: 'POST',
+    path: '/artifacts',
+    inputSchema: {
+      file: z.string().describe('File contents, base64-encoded'),
+      fileName: z.string().describe('File name sent with the upload, e.g. photo.jpg'),
+      contentType: z.string().describe('MIME type of the file, e.g. image/jpeg').optional(),
+      type: z.enum(['photo', 'portfolio']).describe('Artifact kind: photo or portfolio'),
+      description: z.string().describe('Description of the artifact, e.g. a caption for a portfolio image').optional(),
+    },
+    parameters: {
+      file: { name: 'file', in: 'body', binary: true },
+      type: { name: 'type', in: 'body' },
+      description: { name: 'description', in: 'body' },
+    },
+    bodyEncoding: 'multipart',
+  },
+  {
+    name: 'get-artifacts-portfolio',
+    description: "Getting portfolios. Lists the applicant's uploaded portfolio items. Requires an applicant account.",
+    method: 'GET',
+    path: '/artifacts/portfolio',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-artifact-photos-conditions',
+    description:
+      'Conditions for uploading photos. Limits on photo uploads: allowed formats, sizes and counts. Requires an applicant account.',
+    method: 'GET',
+    path: '/artifacts/photo/conditions',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-artifact-photos',
+    description: "Getting photos. Lists the applicant's uploaded photos. Requires an applicant account.",
+    method: 'GET',
+    path: '/artifacts/photo',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-dictionaries',
+    description:
+      'Directories of fields. Returns the dictionaries of enum values used across the API (experience, employment, schedule, currency, vacancy_label, ...). Use to find valid values for search filters. No HH user authorization required.',
+    method: 'GET',
+    path: '/dictionaries',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-languages',
+    description:
+      'The list of all languages. Lists languages with IDs used in resumes and the language filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/languages',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-educational-institutions-dictionary',
+    description:
+      'Basic information about educational institutions. Returns details for educational institutions by ID. No HH user authorization required.',
+    method: 'GET',
+    path: '/educational_institutions',
+    inputSchema: { id: z.array(z.string()).min(1).describe('IDs to look up; repeat for several values') },
+    parameters: { id: { name: 'id', in: 'query' } },
+  },
+  {
+    name: 'get-skills',
+    description: 'The list of key skills. Returns key skills by ID. No HH user authorization required.',
+    method: 'GET',
+    path: '/skills',
+    inputSchema: { id: z.array(z.string()).min(1).describe('IDs to look up; repeat for several values') },
+    parameters: { id: { name: 'id', in: 'query' } },
+  },
+  {
+    name: 'get-professional-roles-dictionary',
+    description:
+      'Professional role directory. Full tree of professional role categories and roles; role IDs are used by the professionalRole search filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/professional_roles',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-faculties',
+    description:
+      'List of educational institution faculties. Lists the faculties of an educational institution. No HH user authorization required.',
+    method: 'GET',
+    path: '/educational_institutions/{id}/faculties',
+    inputSchema: { id: z.string().describe('Educational institution ID, from get-educational-institutions-suggests') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'get-industries',
+    description:
+      'Industries. Two-level tree of industries; IDs are used by the industry search filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/industries',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'change-negotiation-action',
+    description:
+      'Actions with collection response/invitation. Moves a response or invitation to another employer collection (e.g. interview, offer, discard) with an optional message. Available actions are listed in get-negotiation-item. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/negotiations/{collection_name}/{nid}',
+    inputSchema: {
+      collectionName: z
+        .string()
+        .describe(
+          "Employer collection to move the response into, e.g. consider, interview, offer, hired, discard_by_employer; available collections are listed in the negotiation's actions"
+        ),
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+      message: z.string().describe('Message text').optional(),
+      addressId: z.string().describe('Interview address ID, from get-employer-addresses').optional(),
+      sendSms: z.boolean().describe('Also notify the applicant by SMS').optional(),
+    },
+    parameters: {
+      collectionName: { name: 'collection_name', in: 'path' },
+      nid: { name: 'nid', in: 'path' },
+      message: { name: 'message', in: 'body' },
+      addressId: { name: 'address_id', in: 'body' },
+      sendSms: { name: 'send_sms', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-negotiations',
+    description:
+      "Negotiation list. Lists the applicant's responses and invitations with their states. Use get-negotiation-messages to read a conversation. Requires an applicant account.",
+    method: 'GET',
+    path: '/negotiations',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      orderBy: z.enum(['created_at', 'updated_at']).describe('Sort order of the results').optional(),
+      order: z.enum(['asc', 'desc']).describe('Sort direction: asc or desc').optional(),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies').optional(),
+      status: z
+        .string()
+        .describe('Negotiation state filter, e.g. all, active, invitations, response, discard or archived')
+        .optional(),
+      hasUpdates: z.boolean().describe('Only negotiations with unread updates').optional(),
+      withJobSearchStatus: z.boolean().describe("Include the applicant's job search status").optional(),
+      withGeneratedCollections: z.boolean().describe('Include automatically generated collections').optional(),
+    },
+    parameters: {
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      order: { name: 'order', in: 'query' },
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      status: { name: 'status', in: 'query' },
+      hasUpdates: { name: 'has_updates', in: 'query' },
+      withJobSearchStatus: { name: 'with_job_search_status', in: 'query' },
+      withGeneratedCollections: { name: 'with_generated_collections', in: 'query' },
+    },
+
+    paginated: true,
+
+    projection: {
+      omit: [
+        'items.vacancy.employer.logo_urls',
+        'items.vacancy.employer.vacancies_url',
+        'items.resume.photo',
+        'items.resume.actions',
+      ],
+      summary: [
+        'items.id',
+        'items.state.name',
+        'items.has_updates',
+        'items.updated_at',
+        'items.vacancy.id',
+        'items.vacancy.name',
+        'items.vacancy.employer.name',
+        'items.resume.id',
+        'items.resume.title',
+      ],
+    },
+    outputSchema: negotiationListSchema.shape,
+  },
+  {
+    name: 'apply-to-vacancy',
+    description:
+      "Apply for a vacancy. Sends the applicant's response to a vacancy with one of their resumes and an optional cover letter. Use get-suitable-resumes to pick a resume. Requires an applicant account.",
+    method: 'POST',
+    path: '/negotiations',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID'),
+      resumeId: z.string().describe('Resume ID, e.g. from get-suitable-resumes'),
+      message: z.string().describe('Cover letter; required by some vacancies (response_letter_required)').optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'body' },
+      resumeId: { name: 'resume_id', in: 'body' },
+      message: { name: 'message', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-negotiations-statistics-manager',
+    description:
+      'Negotiation statistics for the manager. Response handling statistics for one manager. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/managers/{manager_id}/negotiations_statistics',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' }, managerId: { name: 'manager_id', in: 'path' } },
+  },
+  {
+    name: 'get-active-negotiations',
+    description:
+      "Active negotiation list. Lists the applicant's active responses and invitations only. Requires an applicant account.",
+    method: 'GET',
+    path: '/negotiations/active',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      orderBy: z.enum(['created_at', 'updated_at']).describe('Sort order of the results').optional(),
+      order: z.enum(['asc', 'desc']).describe('Sort direction: asc or desc').optional(),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies').optional(),
+      hasUpdates: z.boolean().describe('Only negotiations with unread updates').optional(),
+      withJobSearchStatus: z.boolean().describe("Include the applicant's job search status").optional(),
+    },
+    parameters: {
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      order: { name: 'order', in: 'query' },
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      hasUpdates: { name: 'has_updates', in: 'query' },
+      withJobSearchStatus: { name: 'with_job_search_status', in: 'query' },
+    },
+
+    paginated: true,
+
+    projection: {
+      omit: [
+        'items.vacancy.employer.logo_urls',
+        'items.vacancy.employer.vacancies_url',
+        'items.resume.photo',
+        'items.resume.actions',
+      ],
+      summary: [
+        'items.id',
+        'items.state.name',
+        'items.has_updates',
+        'items.updated_at',
+        'items.vacancy.id',
+        'items.vacancy.name',
+        'items.vacancy.employer.name',
+        'items.resume.id',
+        'items.resume.title',
+      ],
+    },
+    outputSchema: negotiationListSchema.shape,
+  },
+  {
+    name: 'get-negotiation-message-templates',
+    description:
+      'Template list for the negotiation. Returns message templates for an employer action (invite, discard, ...), filled in for the given vacancy and resume. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/message_templates/{template}',
+    inputSchema: {
+      template: z
+        .string()
+        .describe(
+          'Template kind: invite_after_response, invitation, discard_after_response or discard_after_invitation'
+        ),
+      topicId: z.string().describe('Negotiation ID the template is filled in for').optional(),
+      vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies').optional(),
+      resumeId: z.string().describe('Resume ID').optional(),
+    },
+    parameters: {
+      template: { name: 'template', in: 'path' },
+      topicId: { name: 'topic_id', in: 'query' },
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      resumeId: { name: 'resume_id', in: 'query' },
+    },
+  },
+  {
+    name: 'get-collection-negotiations-list',
+    description:
+      'Negotiation list of the collection. Lists responses and invitations for a vacancy in a collection (response, consider, interview, ...), with resume filters. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/negotiations/response',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID to search resumes relevant to'),
+      orderBy: z.string().describe('Sort order of the results').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      ageFrom: z.number().int().describe('Minimum applicant age in years').optional(),
+      ageTo: z.number().int().describe('Maximum applicant age in years').optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      citizenship: z.array(z.string()).describe('Country IDs from the /countries dictionary').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      driverLicenseTypes: z
+        .array(z.string())
+        .describe('Driver license categories from the `driver_license_types` entry of /dictionaries, e.g. B')
+        .optional(),
+      educationalInstitution: z
+        .array(z.string())
+        .describe('Educational institution IDs, from get-educational-institutions-suggests')
+        .optional(),
+      educationLevel: z
+        .string()
+        .describe('Education level from the `education_level` entry of /dictionaries')
+        .optional(),
+      experience: z
+        .array(z.enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6']))
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      gender: z.enum(['male', 'female', 'unknown']).describe('Applicant gender: male, female or unknown').optional(),
+      language: z
+        .array(z.string())
+        .describe('Languages with level as `{language_id}.{level_id}`, e.g. eng.b2')
+        .optional(),
+      relocation: z
+        .enum(['living', 'living_or_relocation', 'relocation', 'living_but_relocation'])
+        .describe(
+          'Relocation readiness: living (lives in the area), living_or_relocation, relocation or living_but_relocation'
+        )
+        .optional(),
+      salaryFrom: z.number().int().describe('Lower bound of the desired salary').optional(),
+      salaryTo: z.number().int().describe('Upper bound of the desired salary').optional(),
+      searchRadiusMeters: z.number().int().describe('Search radius around the vacancy address, in meters').optional(),
+      searchText: z.string().describe('Free-text filter by applicant name, title or email').optional(),
+      showOnlyNewResponses: z
+        .boolean()
+        .describe('Only responses received since the manager last opened the collection')
+        .optional(),
+      showOnlyWithVehicle: z.boolean().describe('Only applicants with a vehicle').optional(),
+      showOnlyNew: z.boolean().describe('Only new (unread) responses').optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      ageFrom: { name: 'age_from', in: 'query' },
+      ageTo: { name: 'age_to', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      citizenship: { name: 'citizenship', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      driverLicenseTypes: { name: 'driver_license_types', in: 'query' },
+      educationalInstitution: { name: 'educational_institution', in: 'query' },
+      educationLevel: { name: 'education_level', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      gender: { name: 'gender', in: 'query' },
+      language: { name: 'language', in: 'query' },
+      relocation: { name: 'relocation', in: 'query' },
+      salaryFrom: { name: 'salary_from', in: 'query' },
+      salaryTo: { name: 'salary_to', in: 'query' },
+      searchRadiusMeters: { name: 'search_radius_meters', in: 'query' },
+      searchText: { name: 'search_text', in: 'query' },
+      showOnlyNewResponses: { name: 'show_only_new_responses', in: 'query' },
+      showOnlyWithVehicle: { name: 'show_only_with_vehicle', in: 'query' },
+      showOnlyNew: { name: 'show_only_new', in: 'query' },
+    },
+
+    paginated: true,
+
+    projection: {
+      omit: [
+        'items.vacancy.employer.logo_urls',
+        'items.vacancy.employer.vacancies_url',
+        'items.resume.photo',
+        'items.resume.actions',
+      ],
+      summary: [
+        'items.id',
+        'items.state.name',
+        'items.has_updates',
+        'items.updated_at',
+        'items.vacancy.id',
+        'items.vacancy.name',
+        'items.vacancy.employer.name',
+        'items.resume.id',
+        'items.resume.title',
+      ],
+    },
+    outputSchema: negotiationListSchema.shape,
+  },
+  {
+    name: 'invite-applicant-to-vacancy',
+    description:
+      "Invite applicant for a vacancy. Invites the owner of a resume to one of the employer's vacancies. Requires an employer (manager) account.",
+    method: 'POST',
+    path: '/negotiations/phone_interview',
+    inputSchema: {
+      vacancyId: z.string().describe('Vacancy ID'),
+      resumeId: z.string().describe('Resume ID, e.g. from get-suitable-resumes'),
+      message: z.string().describe('Message text').optional(),
+      sendSms: z.boolean().describe('Also notify the applicant by SMS').optional(),
+    },
+    parameters: {
+      vacancyId: { name: 'vacancy_id', in: 'body' },
+      resumeId: { name: 'resume_id', in: 'body' },
+      message: { name: 'message', in: 'body' },
+      sendSms: { name: 'send_sms', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-negotiation-test-results',
+    description:
+      "Get test results attached to the vacancy. Returns the applicant's answers to the test attached to the vacancy. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/negotiations/{nid}/test/solution',
+    inputSchema: {
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+    },
+    parameters: { nid: { name: 'nid', in: 'path' } },
+  },
+  {
+    name: 'edit-negotiation-message',
+    description:
+      'Edit messages in the response. Edits a message the employer has already sent in a negotiation. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/negotiations/{nid}/messages/{mid}',
+    inputSchema: {
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+      mid: z.string().describe('Message ID, from get-negotiation-messages'),
+      message: z.string().describe('Message text'),
+    },
+    parameters: {
+      nid: { name: 'nid', in: 'path' },
+      mid: { name: 'mid', in: 'path' },
+      message: { name: 'message', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'post-negotiations-topics-read',
+    description:
+      'Mark responses as read. Marks responses as read so they no longer count as new. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/negotiations/read',
+    inputSchema: { topicId: z.array(z.string()).min(1).describe('Negotiation IDs to mark as read') },
+    parameters: { topicId: { name: 'topic_id', in: 'query' } },
+  },
+  {
+    name: 'hide-active-response',
+    description:
+      "Hide response. Withdraws an applicant's response and hides it from the active list, optionally with a decline message. Requires an applicant account.",
+    method: 'DELETE',
+    path: '/negotiations/active/{nid}',
+    inputSchema: {
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+      withDeclineMessage: z
+        .boolean()
+        .describe('Send the employer a decline message when hiding the response')
+        .optional(),
+    },
+    parameters: { nid: { name: 'nid', in: 'path' }, withDeclineMessage: { name: 'with_decline_message', in: 'query' } },
+  },
+  {
+    name: 'get-negotiation-item',
+    description:
+      'Viewing the response/invitation. Returns one response or invitation: vacancy, resume, state and the actions available to the employer. Available to applicants and employers.',
+    method: 'GET',
+    path: '/negotiations/{id}',
+    inputSchema: { id: z.string().describe('Negotiation (response/invitation) ID') },
+    parameters: { id: { name: 'id', in: 'path' } },
+
+    projection: {
+      omit: ['vacancy.employer.logo_urls', 'vacancy.employer.vacancies_url', 'resume.photo', 'resume.actions'],
+      summary: [
+        'id',
+        'state.name',
+        'has_updates',
+        'updated_at',
+        'vacancy.id',
+        'vacancy.name',
+        'vacancy.employer.name',
+        'resume.id',
+        'resume.title',
+      ],
+    },
+    outputSchema: negotiationSchema.shape,
+  },
+  {
+    name: 'put-negotiations-collection-to-next-state',
+    description:
+      'Actions with responses/invitations. Moves a response or invitation to the next state, optionally with a message and an interview address. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/negotiations/{id}',
+    inputSchema: {
+      id: z.string().describe('Negotiation (response/invitation) ID'),
+      message: z.string().describe('Message text').optional(),
+      addressId: z.string().describe('Interview address ID, from get-employer-addresses').optional(),
+      sendSms: z.boolean().describe('Also notify the applicant by SMS').optional(),
+    },
+    parameters: {
+      id: { name: 'id', in: 'path' },
+      message: { name: 'message', in: 'body' },
+      addressId: { name: 'address_id', in: 'body' },
+      sendSms: { name: 'send_sms', in: 'body' },
+    },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-negotiations-statistics-employer',
+    description:
+      'Negotiation statistics for the company. Response handling statistics for the whole company. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/employers/{employer_id}/negotiations_statistics',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-negotiation-messages',
+    description:
+      'View the list of messages in the negotiation. Reads the conversation of a response or invitation. Available to applicants and employers.',
+    method: 'GET',
+    path: '/negotiations/{nid}/messages',
+    inputSchema: {
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+      withTextOnly: z.boolean().describe('Only return messages that contain text').optional(),
+    },
+    parameters: { nid: { name: 'nid', in: 'path' }, withTextOnly: { name: 'with_text_only', in: 'query' } },
+  },
+  {
+    name: 'send-negotiation-message',
+    description:
+      'Sending new message. Sends a message in a negotiation (chat between applicant and employer). Available to applicants and employers.',
+    method: 'POST',
+    path: '/negotiations/{nid}/messages',
+    inputSchema: {
+      nid: z
+        .string()
+        .describe('Negotiation (response/invitation) ID, from get-negotiations or get-collection-negotiations-list'),
+      message: z.string().describe('Message text'),
+    },
+    parameters: { nid: { name: 'nid', in: 'path' }, message: { name: 'message', in: 'body' } },
+    bodyEncoding: 'form',
+  },
+  {
+    name: 'get-vacancy-draft',
+    description: 'Obtaining a vacancy draft. Returns a vacancy draft. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/vacancies/drafts/{draft_id}',
+    inputSchema: { draftId: z.string().describe('Vacancy draft ID, from get-vacancy-draft-list') },
+    parameters: { draftId: { name: 'draft_id', in: 'path' } },
+  },
+  {
+    name: 'change-vacancy-draft',
+    description:
+      'Editing a vacancy draft. Updates a vacancy draft; requestData follows the vacancy document. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/vacancies/drafts/{draft_id}',
+    inputSchema: {
+      draftId: z.string().describe('Vacancy draft ID, from get-vacancy-draft-list'),
+      requestData: z.record(z.any()).describe('Vacancy draft fields to change, as in publish-vacancy').optional(),
+    },
+    parameters: { draftId: { name: 'draft_id', in: 'path' }, requestData: { name: 'requestData', in: 'document' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'delete-vacancy-draft',
+    description: 'Deleting a vacancy draft. Deletes a vacancy draft. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/vacancies/drafts/{draft_id}',
+    inputSchema: { draftId: z.string().describe('Vacancy draft ID, from get-vacancy-draft-list') },
+    parameters: { draftId: { name: 'draft_id', in: 'path' } },
+  },
+  {
+    name: 'publish-vacancy-from-draft',
+    description:
+      'Publishing a vacancy from draft. Publishes a vacancy from a draft; check search-for-vacancy-draft-duplicates first. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/vacancies/drafts/{draft_id}/publish',
+    inputSchema: { draftId: z.string().describe('Vacancy draft ID, from get-vacancy-draft-list') },
+    parameters: { draftId: { name: 'draft_id', in: 'path' } },
+  },
+  {
+    name: 'search-for-vacancy-draft-duplicates',
+    description:
+      "Checking for duplicates of a vacancy draft. Lists the employer's vacancies that duplicate a draft. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/vacancies/drafts/{draft_id}/duplicates',
+    inputSchema: { draftId: z.string().describe('Vacancy draft ID, from get-vacancy-draft-list') },
+    parameters: { draftId: { name: 'draft_id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancy-draft-list',
+    description:
+      "Getting a list of vacancy drafts. Lists the employer's vacancy drafts. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/vacancies/drafts',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: { page: { name: 'page', in: 'query' }, perPage: { name: 'per_page', in: 'query' } },
+
+    paginated: true,
+  },
+  {
+    name: 'create-vacancy-draft',
+    description:
+      'Creating vacancy draft. Creates a vacancy draft; requestData follows the vacancy document. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/vacancies/drafts',
+    inputSchema: {
+      requestData: z
+        .record(z.any())
+        .describe('Vacancy draft document; the same fields as publish-vacancy, all optional')
+        .optional(),
+    },
+    parameters: { requestData: { name: 'requestData', in: 'document' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'disable-automatic-vacancy-publication',
+    description:
+      'Canceling vacancy auto publication. Cancels the scheduled automatic publication of a draft. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/vacancies/auto_publication',
+    inputSchema: { draftId: z.string().describe('Vacancy draft ID') },
+    parameters: { draftId: { name: 'draft_id', in: 'query' } },
+  },
+  {
+    name: 'change-webhook-subscription',
+    description:
+      'Change a subscription on notifications. Replaces the callback URL and event types of a webhook subscription. Available to applicants and employers.',
+    method: 'PUT',
+    path: '/webhook/subscriptions/{subscription_id}',
+    inputSchema: {
+      subscriptionId: z.string().describe('Webhook subscription ID, from get-webhook-subscriptions'),
+      url: z.string().describe('HTTPS callback URL that receives notifications'),
+      actions: z
+        .array(z.object({ type: z.string() }))
+        .min(1)
+        .describe('Events to be notified about, e.g. [{ "type": "NEW_RESPONSE_OR_INVITATION_VACANCY" }]'),
+    },
+    parameters: {
+      subscriptionId: { name: 'subscription_id', in: 'path' },
+      url: { name: 'url', in: 'body' },
+      actions: { name: 'actions', in: 'body' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'cancel-webhook-subscription',
+    description:
+      'Delete a subscription on notifications. Deletes a webhook subscription. Available to applicants and employers.',
+    method: 'DELETE',
+    path: '/webhook/subscriptions/{subscription_id}',
+    inputSchema: { subscriptionId: z.string().describe('Webhook subscription ID, from get-webhook-subscriptions') },
+    parameters: { subscriptionId: { name: 'subscription_id', in: 'path' } },
+  },
+  {
+    name: 'get-webhook-subscriptions',
+    description:
+      "Obtain the list of notifications the user is subscribed to. Lists the user's webhook subscriptions. Available to applicants and employers.",
+    method: 'GET',
+    path: '/webhook/subscriptions',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'post-webhook-subscription',
+    description:
+      'Subscription to notifications. Subscribes a callback URL to HH events such as NEW_RESPONSE_OR_INVITATION_VACANCY. Available to applicants and employers.',
+    method: 'POST',
+    path: '/webhook/subscriptions',
+    inputSchema: {
+      url: z.string().describe('HTTPS callback URL that receives notifications'),
+      actions: z
+        .array(z.object({ type: z.string() }))
+        .min(1)
+        .describe('Events to be notified about, e.g. [{ "type": "NEW_RESPONSE_OR_INVITATION_VACANCY" }]'),
+    },
+    parameters: { url: { name: 'url', in: 'body' }, actions: { name: 'actions', in: 'body' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-tests-dictionary',
+    description:
+      "Employer's test directory. Lists tests the employer can attach to vacancies. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/tests',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-employer-vacancy-areas',
+    description:
+      'List of regions with active vacancies. Areas where the employer has active vacancies, with counts. No HH user authorization required.',
+    method: 'GET',
+    path: '/employers/{employer_id}/vacancy_areas/active',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-employer-info',
+    description:
+      'Employer info. Public company profile: description, site, logo, industries and open vacancy count. No HH user authorization required.',
+    method: 'GET',
+    path: '/employers/{employer_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+
+    projection: {
+      omit: ['logo_urls', 'branding', 'insider_interviews'],
+      summary: ['id', 'name', 'area.name', 'open_vacancies', 'site_url', 'alternate_url'],
+    },
+    outputSchema: employerSchema.shape,
+  },
+  {
+    name: 'add-employer-to-blacklisted',
+    description:
+      "Adding an employer to the blacklist. Hides all vacancies of an employer from the applicant's search results. Requires an applicant account.",
+    method: 'PUT',
+    path: '/employers/blacklisted/{employer_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'delete-employer-from-blacklisted',
+    description:
+      "Deleting an employer from the blacklist. Shows a previously hidden employer's vacancies again. Requires an applicant account.",
+    method: 'DELETE',
+    path: '/employers/blacklisted/{employer_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'search-employer',
+    description:
+      'Employer search. Finds companies by name; use to resolve a company name to an employer ID for the employerId vacancy filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/employers',
+    inputSchema: {
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"')
+        .optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      type: z
+        .enum(['company', 'agency', 'private_recruiter', 'project_director', 'private_person'])
+        .describe('Employer type: company, agency, private_recruiter, project_director or private_person')
+        .optional(),
+      onlyWithVacancies: z.boolean().describe('Only employers with open vacancies').optional(),
+      sortBy: z.enum(['by_name', 'by_vacancies_open']).describe('Sort order: by_name or by_vacancies_open').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: {
+      text: { name: 'text', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      type: { name: 'type', in: 'query' },
+      onlyWithVacancies: { name: 'only_with_vacancies', in: 'query' },
+      sortBy: { name: 'sort_by', in: 'query' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+    },
+
+    paginated: true,
+
+    projection: {
+      omit: ['items.logo_urls'],
+      summary: [
+        'items.id',
+        'items.name',
+        'items.area.name',
+        'items.open_vacancies',
+        'items.site_url',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: employerListSchema.shape,
+  },
+  {
+    name: 'get-employer-departments',
+    description:
+      "Employer's department directory. Lists the employer's departments. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/departments',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-vacancy-branded-templates-list',
+    description:
+      "Employer's branded vacancy templates. Lists branded templates available for vacancy publication. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/vacancy_branded_templates',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-blacklisted-employers',
+    description: 'List of hidden employers. Lists employers the applicant has hidden. Requires an applicant account.',
+    method: 'GET',
+    path: '/employers/blacklisted',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-all-districts',
+    description:
+      'List of available city districts. Lists city districts with IDs used by the district resume filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/districts',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-salary-evaluation',
+    description:
+      'Salary assessment without forecasts. Paid salary statistics for an area, optionally narrowed by industry, specialization and competency level. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/salary_statistics/paid/salary_evaluation/{area_id}',
+    inputSchema: {
+      areaId: z.string().describe('Area ID, from get-salary-salary-areas'),
+      excludeArea: z.array(z.string()).describe('Area IDs to exclude, from the /areas dictionary').optional(),
+      employeeLevel: z
+        .array(z.string())
+        .describe('Employee levels from the /salary_statistics/dictionaries/employee_levels dictionary')
+        .optional(),
+      industry: z.array(z.string()).describe('Industry IDs, from get-salary-industries').optional(),
+      speciality: z.array(z.string()).describe('Specialization IDs, from get-salary-professional-areas').optional(),
+      extendSources: z
+        .boolean()
+        .describe('Also use data from extended sources when HH data is insufficient')
+        .optional(),
+      positionName: z.string().describe('Position name to evaluate the salary for').optional(),
+    },
+    parameters: {
+      areaId: { name: 'area_id', in: 'path' },
+      excludeArea: { name: 'exclude_area', in: 'query' },
+      employeeLevel: { name: 'employee_level', in: 'query' },
+      industry: { name: 'industry', in: 'query' },
+      speciality: { name: 'speciality', in: 'query' },
+      extendSources: { name: 'extend_sources', in: 'query' },
+      positionName: { name: 'position_name', in: 'query' },
+    },
+  },
+  {
+    name: 'get-metro-stations',
+    description:
+      'The list of metro stations in all cities. Metro lines and stations of all cities; station IDs are used by the metro filter. No HH user authorization required.',
+    method: 'GET',
+    path: '/metro',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-metro-stations-in-city',
+    description:
+      'The list of metro stations in the specified city. Metro lines and stations of one city. No HH user authorization required.',
+    method: 'GET',
+    path: '/metro/{city_id}',
+    inputSchema: {
+      cityId: z.string().describe('City area ID, e.g. 1 for Moscow; see get-metro-stations for cities with metro'),
+    },
+    parameters: { cityId: { name: 'city_id', in: 'path' } },
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'move-saved-resume-search',
+    description:
+      'Moving saved resumes search to other manager. Transfers a saved resume search to another manager. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/saved_searches/resumes/{saved_search_id}/managers/{manager_id}',
+    inputSchema: {
+      savedSearchId: z.string().describe('Saved resume search ID, from get-saved-resume-searches'),
+      managerId: z.string().describe('Manager ID, from get-employer-managers or get-current-user-info (manager.id)'),
+    },
+    parameters: {
+      savedSearchId: { name: 'saved_search_id', in: 'path' },
+      managerId: { name: 'manager_id', in: 'path' },
+    },
+  },
+  {
+    name: 'get-resumes-by-status',
+    description:
+      "Resumes grouped by the possibility of application for a given job. Groups the applicant's resumes by whether they can be used to apply to a vacancy. Requires an applicant account.",
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/resumes_by_status',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-resume-status',
+    description:
+      "Resume status and readiness for publication. Shows a resume's moderation status, whether it can be published and which fields block publication. Requires an applicant account.",
+    method: 'GET',
+    path: '/resumes/{resume_id}/status',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'get-resume-negotiations-history',
+    description:
+      "History of responses/invitations for a resume. History of the employer's responses and invitations with a resume. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/resumes/{resume_id}/negotiations_history',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'get-saved-resume-search',
+    description:
+      'Getting single saved resume search. Returns one saved resume search. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/saved_searches/resumes/{id}',
+    inputSchema: { id: z.string().describe('Saved resume search ID, from get-saved-resume-searches') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'update-saved-resume-search',
+    description:
+      'Updating saved resume search. Renames a saved resume search or toggles its email subscription. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/saved_searches/resumes/{id}',
+    inputSchema: {
+      id: z.string().describe('Saved resume search ID, from get-saved-resume-searches'),
+      name: z.string().describe('Name of the saved search').optional(),
+      subscription: z.boolean().describe('Whether to receive new results of the saved search by email').optional(),
+    },
+    parameters: {
+      id: { name: 'id', in: 'path' },
+      name: { name: 'name', in: 'query' },
+      subscription: { name: 'subscription', in: 'query' },
+    },
+  },
+  {
+    name: 'delete-saved-resume-search',
+    description: 'Deleting saved resume search. Deletes a saved resume search. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/saved_searches/resumes/{id}',
+    inputSchema: { id: z.string().describe('Saved resume search ID, from get-saved-resume-searches') },
+    parameters: { id: { name: 'id', in: 'path' } },
+  },
+  {
+    name: 'search-for-resumes',
+    description:
+      'Resume search. Resume search for employers (paid access). Combine several text queries with textLogic, textField and textPeriod; filter by area, experience, salary and more. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/resumes',
+    inputSchema: {
+      text: z
+        .array(z.string())
+        .describe(
+          'Search queries; repeat together with textLogic, textField and textPeriod to combine several conditions'
+        )
+        .optional(),
+      textLogic: z
+        .array(z.enum(['all', 'any', 'phrase', 'except']))
+        .describe(
+          'How to match each text query: all (all words), any (any word), phrase (exact phrase) or except (exclude words)'
+        )
+        .optional(),
+      textField: z
+        .array(
+          z.enum([
+            'everywhere',
+            'title',
+            'education',
+            'skills',
+            'experience',
+            'experience_company',
+            'experience_position',
+            'experience_description',
+          ])
+        )
+        .describe('Resume section each text query applies to, e.g. everywhere, title, skills or experience')
+        .optional(),
+      textPeriod: z
+        .array(z.enum(['all_time', 'last_year', 'last_three_years', 'last_six_years']))
+        .describe('Experience period each text query applies to, e.g. all_time or last_year')
+        .optional(),
+      textCompanySize: z
+        .array(z.string())
+        .describe('Company size the text query applies to (the `resume_search_company_size` entry of /dictionaries)')
+        .optional(),
+      textIndustry: z
+        .array(z.string())
+        .describe('Industry IDs (from the /industries dictionary) or industry names the text query applies to')
+        .optional(),
+      ageFrom: z.number().int().describe('Minimum applicant age in years').optional(),
+      ageTo: z.number().int().describe('Maximum applicant age in years').optional(),
+      area: z
+        .array(z.string())
+        .describe(
+          'Area IDs from the /areas dictionary, or names such as "Moscow" or "Москва" resolved to IDs; repeat to search in several areas'
+        )
+        .optional(),
+      relocation: z
+        .enum(['living', 'living_or_relocation', 'relocation', 'living_but_relocation'])
+        .describe(
+          'Relocation readiness: living (lives in the area), living_or_relocation, relocation or living_but_relocation'
+        )
+        .optional(),
+      period: z.number().int().describe('Only resumes updated within this many days').optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      educationLevel: z
+        .string()
+        .describe('Education level from the `education_level` entry of /dictionaries')
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      experience: z
+        .array(z.enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6']))
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      skill: z.array(z.string()).describe('Skill IDs from the /skills dictionary').optional(),
+      gender: z.enum(['male', 'female', 'unknown']).describe('Applicant gender: male, female or unknown').optional(),
+      label: z
+        .array(z.string())
+        .describe('Resume labels from the `resume_search_label` entry of /dictionaries')
+        .optional(),
+      language: z
+        .array(z.string())
+        .describe('Languages with level as `{language_id}.{level_id}`, e.g. eng.b2')
+        .optional(),
+      metro: z
+        .array(z.string())
+        .describe(
+          'Metro station or line IDs from the /metro dictionary, or station or line names such as "Arbatskaya" resolved to IDs'
+        )
+        .optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salaryFrom: z.number().int().describe('Lower bound of the desired salary').optional(),
+      salaryTo: z.number().int().describe('Upper bound of the desired salary').optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance'])
+        .describe('Sort order of the results')
+        .optional(),
+      citizenship: z.array(z.string()).describe('Country IDs from the /countries dictionary').optional(),
+      workTicket: z.array(z.string()).describe('Country IDs from the /countries dictionary').optional(),
+      educationalInstitution: z
+        .array(z.string())
+        .describe('Educational institution IDs, from get-educational-institutions-suggests')
+        .optional(),
+      searchInResponses: z
+        .boolean()
+        .describe("Also search among applicants who responded to the employer's vacancies")
+        .optional(),
+      byTextPrefix: z.boolean().describe('Match text queries as word prefixes').optional(),
+      driverLicenseTypes: z
+        .array(z.string())
+        .describe('Driver license categories from the `driver_license_types` entry of /dictionaries, e.g. B')
+        .optional(),
+      vacancyId: z.string().describe('Vacancy ID to search resumes relevant to').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe(
+          'Professional role IDs from the /professional_roles dictionary, or role names such as "backend developer" resolved to IDs'
+        )
+        .optional(),
+      folder: z.string().describe('Saved resume folder IDs to search in').optional(),
+      includeAllFolders: z.boolean().describe('Search in all saved resume folders').optional(),
+      jobSearchStatus: z
+        .array(
+          z.enum(['not_looking_for_job', 'looking_for_offers', 'active_search', 'has_job_offer', 'accepted_job_offer'])
+        )
+        .describe('Applicant job search statuses to include')
+        .optional(),
+      resume: z.string().describe('Resume ID to find similar resumes to').optional(),
+      filterExpIndustry: z
+        .array(z.string())
+        .describe('Industry IDs (from the /industries dictionary) or industry names of the work experience')
+        .optional(),
+      filterExpPeriod: z
+        .string()
+        .describe('Experience period the industry filter applies to, e.g. all_time or last_year')
+        .optional(),
+      withJobSearchStatus: z.boolean().describe("Include the applicant's job search status").optional(),
+      educationLevels: z
+        .array(z.string())
+        .describe('Education levels from the `education_level` entry of /dictionaries')
+        .optional(),
+      district: z.array(z.string()).describe('District IDs from the /districts dictionary').optional(),
+      savedSearchId: z.string().describe('Saved resume search ID whose filters to apply').optional(),
+      searchByVacancyId: z
+        .string()
+        .describe('Vacancy ID whose requirements should be used as the search query')
+        .optional(),
+      lastUsedTimestamp: z
+        .string()
+        .describe('Only resumes found after this moment of a saved search run, ISO 8601')
+        .optional(),
+      lastUsed: z.string().describe('Saved search ID used with lastUsedTimestamp to get only new resumes').optional(),
+    },
+    parameters: {
+      text: { name: 'text', in: 'query' },
+      textLogic: { name: 'text.logic', in: 'query' },
+      textField: { name: 'text.field', in: 'query' },
+      textPeriod: { name: 'text.period', in: 'query' },
+      textCompanySize: { name: 'text.company_size', in: 'query' },
+      textIndustry: { name: 'text.industry', in: 'query' },
+      ageFrom: { name: 'age_from', in: 'query' },
+      ageTo: { name: 'age_to', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      relocation: { name: 'relocation', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      educationLevel: { name: 'education_level', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      skill: { name: 'skill', in: 'query' },
+      gender: { name: 'gender', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      language: { name: 'language', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salaryFrom: { name: 'salary_from', in: 'query' },
+      salaryTo: { name: 'salary_to', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      citizenship: { name: 'citizenship', in: 'query' },
+      workTicket: { name: 'work_ticket', in: 'query' },
+      educationalInstitution: { name: 'educational_institution', in: 'query' },
+      searchInResponses: { name: 'search_in_responses', in: 'query' },
+      byTextPrefix: { name: 'by_text_prefix', in: 'query' },
+      driverLicenseTypes: { name: 'driver_license_types', in: 'query' },
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+      folder: { name: 'folder', in: 'query' },
+      includeAllFolders: { name: 'include_all_folders', in: 'query' },
+      jobSearchStatus: { name: 'job_search_status', in: 'query' },
+      resume: { name: 'resume', in: 'query' },
+      filterExpIndustry: { name: 'filter_exp_industry', in: 'query' },
+      filterExpPeriod: { name: 'filter_exp_period', in: 'query' },
+      withJobSearchStatus: { name: 'with_job_search_status', in: 'query' },
+      educationLevels: { name: 'education_levels', in: 'query' },
+      district: { name: 'district', in: 'query' },
+      savedSearchId: { name: 'saved_search_id', in: 'query' },
+      searchByVacancyId: { name: 'search_by_vacancy_id', in: 'query' },
+      lastUsedTimestamp: { name: 'last_used_timestamp', in: 'query' },
+      lastUsed: { name: 'last_used', in: 'query' },
+    },
+
+    paginated: true,
+
+    projection: {
+      omit: ['items.photo', 'items.download', 'items.actions', 'items.paid_services'],
+      summary: [
+        'items.id',
+        'items.title',
+        'items.first_name',
+        'items.last_name',
+        'items.age',
+        'items.area.name',
+        'items.salary',
+        'items.total_experience',
+        'items.updated_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: resumeListSchema.shape,
+  },
+  {
+    name: 'create-resume',
+    description:
+      'Resume creating. Creates a resume from a document in requestData, or clones an existing one with sourceResumeId. Check get-new-resume-conditions first. Requires an applicant account.',
+    method: 'POST',
+    path: '/resumes',
+    inputSchema: {
+      sourceResumeId: z.string().describe('Resume ID to clone').optional(),
+      requestData: z
+        .record(z.any())
+        .describe(
+          'Resume document: title, first_name, last_name, area, contact, experience, education, skill_set, salary and professional_roles'
+        )
+        .optional(),
+    },
+    parameters: {
+      sourceResumeId: { name: 'source_resume_id', in: 'query' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-mine-resumes',
+    description:
+      "List of resumes for current user. Lists the applicant's own resumes with their IDs and statuses; start here before applying or editing. Requires an applicant account.",
+    method: 'GET',
+    path: '/resumes/mine',
+    inputSchema: {},
+    parameters: {},
+
+    projection: {
+      omit: ['items.photo', 'items.download', 'items.actions', 'items.paid_services'],
+      summary: [
+        'items.id',
+        'items.title',
+        'items.first_name',
+        'items.last_name',
+        'items.age',
+        'items.area.name',
+        'items.salary',
+        'items.total_experience',
+        'items.updated_at',
+        'items.alternate_url',
+      ],
+    },
+    outputSchema: resumeListSchema.shape,
+  },
+  {
+    name: 'publish-resume',
+    description:
+      'Resume publication. Publishes a resume or raises an already published one in search results. Requires an applicant account.',
+    method: 'POST',
+    path: '/resumes/{resume_id}/publish',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'get-new-resume-conditions',
+    description:
+      'Conditions to fill in the fields of a new resume. Field limits and rules for a new resume document. Requires an applicant account.',
+    method: 'GET',
+    path: '/resume_conditions',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-suitable-resumes',
+    description:
+      "List of resumes suitable for job application. Lists the applicant's resumes that can be used to apply to a vacancy. Requires an applicant account.",
+    method: 'GET',
+    path: '/vacancies/{vacancy_id}/suitable_resumes',
+    inputSchema: { vacancyId: z.string().describe('Vacancy ID, e.g. from get-vacancies') },
+    parameters: { vacancyId: { name: 'vacancy_id', in: 'path' } },
+  },
+  {
+    name: 'get-resume-conditions',
+    description:
+      'Conditions to fill in the fields of an existent resume. Field limits and rules for editing an existing resume. Requires an applicant account.',
+    method: 'GET',
+    path: '/resumes/{resume_id}/conditions',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'get-resume-view-history',
+    description: 'History of resume views. Lists employers who viewed the resume. Requires an applicant account.',
+    method: 'GET',
+    path: '/resumes/{resume_id}/views',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      withEmployerLogo: z.boolean().describe('Include employer logos').optional(),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      withEmployerLogo: { name: 'with_employer_logo', in: 'query' },
+    },
+  },
+  {
+    name: 'get-resume',
+    description:
+      'View a resume. Returns the full resume. Applicants can read their own resumes; employers need resume view access and spend a view from their daily limit. Available to applicants and employers.',
+    method: 'GET',
+    path: '/resumes/{resume_id}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      withNegotiationsHistory: z
+        .boolean()
+        .describe('Include the history of responses and invitations with this resume')
+        .optional(),
+      withCreds: z.boolean().describe("Include the applicant's creds (answers to qualifying questions)").optional(),
+      withJobSearchStatus: z.boolean().describe("Include the applicant's job search status").optional(),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      withNegotiationsHistory: { name: 'with_negotiations_history', in: 'query' },
+      withCreds: { name: 'with_creds', in: 'query' },
+      withJobSearchStatus: { name: 'with_job_search_status', in: 'query' },
+    },
+
+    projection: {
+      omit: ['photo', 'download', 'actions', 'paid_services'],
+      summary: [
+        'id',
+        'title',
+        'first_name',
+        'last_name',
+        'age',
+        'area.name',
+        'salary',
+        'total_experience',
+        'updated_at',
+        'alternate_url',
+      ],
+    },
+    outputSchema: resumeSchema.shape,
+  },
+  {
+    name: 'edit-resume',
+    description:
+      'Resume updating. Updates a resume; requestData contains only the fields to change. Check get-resume-conditions for field rules. Requires an applicant account.',
+    method: 'PUT',
+    path: '/resumes/{resume_id}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      requestData: z
+        .record(z.any())
+        .describe(
+          'Resume fields to change: title, salary, skill_set, experience, education, contact and others from get-resume'
+        )
+        .optional(),
+    },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' }, requestData: { name: 'requestData', in: 'document' } },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'delete-resume',
+    description: 'Deleting a resume. Deletes a resume. Requires an applicant account.',
+    method: 'DELETE',
+    path: '/resumes/{resume_id}',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'get-resume-creation-availability',
+    description:
+      'Availability of resume creation. Tells whether the applicant can create another resume. Requires an applicant account.',
+    method: 'GET',
+    path: '/resumes/creation_availability',
+    inputSchema: {},
+    parameters: {},
+  },
+  {
+    name: 'get-saved-resume-searches',
+    description:
+      "List of saved resume searches. Lists the manager's saved resume searches. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/saved_searches/resumes',
+    inputSchema: {
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+    },
+    parameters: { page: { name: 'page', in: 'query' }, perPage: { name: 'per_page', in: 'query' } },
+
+    paginated: true,
+  },
+  {
+    name: 'create-saved-resume-search',
+    description:
+      'Creating new saved resumes search. Saves a resume search with the same filters as search-for-resumes. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/saved_searches/resumes',
+    inputSchema: {
+      text: z
+        .array(z.string())
+        .describe(
+          'Search queries; repeat together with textLogic, textField and textPeriod to combine several conditions'
+        )
+        .optional(),
+      textLogic: z
+        .array(z.enum(['all', 'any', 'phrase', 'except']))
+        .describe(
+          'How to match each text query: all (all words), any (any word), phrase (exact phrase) or except (exclude words)'
+        )
+        .optional(),
+      textField: z
+        .array(
+          z.enum([
+            'everywhere',
+            'title',
+            'education',
+            'skills',
+            'experience',
+            'experience_company',
+            'experience_position',
+            'experience_description',
+          ])
+        )
+        .describe('Resume section each text query applies to, e.g. everywhere, title, skills or experience')
+        .optional(),
+      textPeriod: z
+        .array(z.enum(['all_time', 'last_year', 'last_three_years', 'last_six_years']))
+        .describe('Experience period each text query applies to, e.g. all_time or last_year')
+        .optional(),
+      ageFrom: z.number().int().describe('Minimum applicant age in years').optional(),
+      ageTo: z.number().int().describe('Maximum applicant age in years').optional(),
+      area: z
+        .array(z.string())
+        .describe('Area IDs from the /areas dictionary; repeat to search in several areas')
+        .optional(),
+      relocation: z
+        .enum(['living', 'living_or_relocation', 'relocation', 'living_but_relocation'])
+        .describe(
+          'Relocation readiness: living (lives in the area), living_or_relocation, relocation or living_but_relocation'
+        )
+        .optional(),
+      period: z.number().int().describe('Only resumes updated within this many days').optional(),
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        )
+        .optional(),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom').optional(),
+      educationLevel: z
+        .string()
+        .describe('Education level from the `education_level` entry of /dictionaries')
+        .optional(),
+      employment: z
+        .array(z.enum(['full', 'part', 'project', 'volunteer', 'probation']))
+        .describe(
+          'Employment type from the `employment` entry of /dictionaries: full, part, project, volunteer, probation'
+        )
+        .optional(),
+      experience: z
+        .array(z.enum(['noExperience', 'between1And3', 'between3And6', 'moreThan6']))
+        .describe(
+          'Required work experience: noExperience, between1And3, between3And6 or moreThan6 (the `experience` entry of /dictionaries)'
+        )
+        .optional(),
+      skill: z.array(z.string()).describe('Skill IDs from the /skills dictionary').optional(),
+      gender: z.enum(['male', 'female', 'unknown']).describe('Applicant gender: male, female or unknown').optional(),
+      label: z
+        .array(z.string())
+        .describe('Resume labels from the `resume_search_label` entry of /dictionaries')
+        .optional(),
+      language: z
+        .array(z.string())
+        .describe('Languages with level as `{language_id}.{level_id}`, e.g. eng.b2')
+        .optional(),
+      metro: z.array(z.string()).describe('Metro station or line IDs from the /metro dictionary').optional(),
+      currency: z.string().describe('Currency code from the `currency` entry of /dictionaries, e.g. RUR').optional(),
+      salaryFrom: z.number().int().describe('Lower bound of the desired salary').optional(),
+      salaryTo: z.number().int().describe('Upper bound of the desired salary').optional(),
+      schedule: z
+        .array(z.enum(['fullDay', 'shift', 'flexible', 'remote', 'flyInFlyOut']))
+        .describe(
+          'Work schedule from the `schedule` entry of /dictionaries: fullDay, shift, flexible, remote, flyInFlyOut'
+        )
+        .optional(),
+      orderBy: z
+        .enum(['publication_time', 'salary_desc', 'salary_asc', 'relevance'])
+        .describe('Sort order of the results')
+        .optional(),
+      citizenship: z.array(z.string()).describe('Country IDs from the /countries dictionary').optional(),
+      workTicket: z.array(z.string()).describe('Country IDs from the /countries dictionary').optional(),
+      educationalInstitution: z
+        .array(z.string())
+        .describe('Educational institution IDs, from get-educational-institutions-suggests')
+        .optional(),
+      searchInResponses: z
+        .boolean()
+        .describe("Also search among applicants who responded to the employer's vacancies")
+        .optional(),
+      byTextPrefix: z.boolean().describe('Match text queries as word prefixes').optional(),
+      driverLicenseTypes: z
+        .array(z.string())
+        .describe('Driver license categories from the `driver_license_types` entry of /dictionaries, e.g. B')
+        .optional(),
+      vacancyId: z.string().describe('Vacancy ID to search resumes relevant to').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      professionalRole: z
+        .array(z.string())
+        .describe('Professional role IDs from the /professional_roles dictionary')
+        .optional(),
+    },
+    parameters: {
+      text: { name: 'text', in: 'query' },
+      textLogic: { name: 'text.logic', in: 'query' },
+      textField: { name: 'text.field', in: 'query' },
+      textPeriod: { name: 'text.period', in: 'query' },
+      ageFrom: { name: 'age_from', in: 'query' },
+      ageTo: { name: 'age_to', in: 'query' },
+      area: { name: 'area', in: 'query' },
+      relocation: { name: 'relocation', in: 'query' },
+      period: { name: 'period', in: 'query' },
+      dateFrom: { name: 'date_from', in: 'query' },
+      dateTo: { name: 'date_to', in: 'query' },
+      educationLevel: { name: 'education_level', in: 'query' },
+      employment: { name: 'employment', in: 'query' },
+      experience: { name: 'experience', in: 'query' },
+      skill: { name: 'skill', in: 'query' },
+      gender: { name: 'gender', in: 'query' },
+      label: { name: 'label', in: 'query' },
+      language: { name: 'language', in: 'query' },
+      metro: { name: 'metro', in: 'query' },
+      currency: { name: 'currency', in: 'query' },
+      salaryFrom: { name: 'salary_from', in: 'query' },
+      salaryTo: { name: 'salary_to', in: 'query' },
+      schedule: { name: 'schedule', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+      citizenship: { name: 'citizenship', in: 'query' },
+      workTicket: { name: 'work_ticket', in: 'query' },
+      educationalInstitution: { name: 'educational_institution', in: 'query' },
+      searchInResponses: { name: 'search_in_responses', in: 'query' },
+      byTextPrefix: { name: 'by_text_prefix', in: 'query' },
+      driverLicenseTypes: { name: 'driver_license_types', in: 'query' },
+      vacancyId: { name: 'vacancy_id', in: 'query' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      professionalRole: { name: 'professional_role', in: 'query' },
+    },
+  },
+  {
+    name: 'get-resume-access-types',
+    description:
+      'Retrieving a list of resume visibility types. Lists visibility options for a resume (everyone, clients only, whitelist, blacklist, ...). Requires an applicant account.',
+    method: 'GET',
+    path: '/resumes/{resume_id}/access_types',
+    inputSchema: { resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes') },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' } },
+  },
+  {
+    name: 'update-applicant-comment',
+    description:
+      'Update a comment. Edits a comment the employer left about an applicant. Requires an employer (manager) account.',
+    method: 'PUT',
+    path: '/applicant_comments/{applicant_id}/{comment_id}',
+    inputSchema: {
+      applicantId: z.string().describe("Applicant ID, from the resume's owner field"),
+      commentId: z.string().describe('Comment ID, from get-applicant-comments-list'),
+      text: z.string().describe('Comment text'),
+      accessType: z
+        .enum(['owner', 'coworkers'])
+        .describe('Who can see the comment: owner (only its author) or coworkers (all company managers)')
+        .optional(),
+    },
+    parameters: {
+      applicantId: { name: 'applicant_id', in: 'path' },
+      commentId: { name: 'comment_id', in: 'path' },
+      text: { name: 'text', in: 'body' },
+      accessType: { name: 'access_type', in: 'body' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'delete-applicant-comment',
+    description: 'Delete a comment. Deletes a comment about an applicant. Requires an employer (manager) account.',
+    method: 'DELETE',
+    path: '/applicant_comments/{applicant_id}/{comment_id}',
+    inputSchema: {
+      applicantId: z.string().describe("Applicant ID, from the resume's owner field"),
+      commentId: z.string().describe('Comment ID, from get-applicant-comments-list'),
+    },
+    parameters: { applicantId: { name: 'applicant_id', in: 'path' }, commentId: { name: 'comment_id', in: 'path' } },
+  },
+  {
+    name: 'get-applicant-comments-list',
+    description:
+      "List of comments. Lists the employer's comments about an applicant. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/applicant_comments/{applicant_id}',
+    inputSchema: {
+      applicantId: z.string().describe("Applicant ID, from the resume's owner field"),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      orderBy: z.string().describe('Sort order of the results').optional(),
+    },
+    parameters: {
+      applicantId: { name: 'applicant_id', in: 'path' },
+      page: { name: 'page', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      orderBy: { name: 'order_by', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'add-applicant-comment',
+    description:
+      'Add a comment. Adds a comment about an applicant, visible to its author or to all coworkers. Requires an employer (manager) account.',
+    method: 'POST',
+    path: '/applicant_comments/{applicant_id}',
+    inputSchema: {
+      applicantId: z.string().describe("Applicant ID, from the resume's owner field"),
+      text: z.string().describe('Comment text'),
+      accessType: z
+        .enum(['owner', 'coworkers'])
+        .describe('Who can see the comment: owner (only its author) or coworkers (all company managers)')
+        .optional(),
+    },
+    parameters: {
+      applicantId: { name: 'applicant_id', in: 'path' },
+      text: { name: 'text', in: 'body' },
+      accessType: { name: 'access_type', in: 'body' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'put-mail-templates-item',
+    description:
+      "Edit a template for response to an applicant. Edits an employer's email template for responses to applicants. Requires an employer (manager) account.",
+    method: 'PUT',
+    path: '/employers/{employer_id}/mail_templates/{template_id}',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+      templateId: z.string().describe('Mail template ID, from get-mail-templates'),
+      requestData: z.record(z.any()).describe('Template document with its name, subject and text').optional(),
+    },
+    parameters: {
+      employerId: { name: 'employer_id', in: 'path' },
+      templateId: { name: 'template_id', in: 'path' },
+      requestData: { name: 'requestData', in: 'document' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'get-mail-templates',
+    description:
+      "List of available templates for response to an applicant. Lists the employer's email templates for responses to applicants. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/employers/{employer_id}/mail_templates',
+    inputSchema: {
+      employerId: z.string().describe('Employer ID, e.g. from get-current-user-info (employer.id) or search-employer'),
+    },
+    parameters: { employerId: { name: 'employer_id', in: 'path' } },
+  },
+  {
+    name: 'get-clickme-statistics',
+    description:
+      "Getting info about Clickme ad campaign statistics. Statistics of the employer's Clickme advertising campaigns. Requires an employer (manager) account.",
+    method: 'GET',
+    path: '/clickme/statistics',
+    inputSchema: {
+      dateFrom: z
+        .string()
+        .describe(
+          'Lower bound of the publication date, ISO 8601 (YYYY-MM-DD or YYYY-MM-DDThh:mm:ss±hhmm); cannot be combined with period'
+        ),
+      dateTo: z.string().describe('Upper bound of the publication date, ISO 8601; requires dateFrom'),
+    },
+    parameters: { dateFrom: { name: 'date_from', in: 'query' }, dateTo: { name: 'date_to', in: 'query' } },
+  },
+  {
+    name: 'get-countries',
+    description:
+      'Countries. Lists countries with area IDs; also used by the citizenship and work ticket filters. No HH user authorization required.',
+    method: 'GET',
+    path: '/areas/countries',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-areas',
+    description:
+      'Tree view of all regions. Full tree of countries, regions and cities. Prefer get-areas-suggests to look up a single place. No HH user authorization required.',
+    method: 'GET',
+    path: '/areas',
+    inputSchema: {
+      additionalCase: z
+        .string()
+        .describe('Also return area names in an additional grammatical case: prepositional, genitive or accusative')
+        .optional(),
+    },
+    parameters: { additionalCase: { name: 'additional_case', in: 'query' } },
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-areas-from-specified',
+    description:
+      'Region directory, starting from the specified region. Subtree of areas starting from the given area, e.g. the cities of a region. No HH user authorization required.',
+    method: 'GET',
+    path: '/areas/{area_id}',
+    inputSchema: {
+      areaId: z.string().describe('Area ID to start the tree from, e.g. 113 for Russia or 1 for Moscow'),
+      additionalCase: z
+        .string()
+        .describe('Also return area names in an additional grammatical case: prepositional, genitive or accusative')
+        .optional(),
+    },
+    parameters: { areaId: { name: 'area_id', in: 'path' }, additionalCase: { name: 'additional_case', in: 'query' } },
+
+    cacheTtl: 86400,
+  },
+  {
+    name: 'get-salary-employee-levels',
+    description:
+      'Competency levels. Competency levels used by get-salary-evaluation. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/salary_statistics/dictionaries/employee_levels',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+    cachePerUser: true,
+  },
+  {
+    name: 'get-salary-salary-areas',
+    description: 'Regions and cities. Areas available in salary statistics. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/salary_statistics/dictionaries/salary_areas',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+    cachePerUser: true,
+  },
+  {
+    name: 'get-salary-professional-areas',
+    description:
+      'Professions and specializations. Professions and specializations available in salary statistics. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/salary_statistics/dictionaries/professional_areas',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+    cachePerUser: true,
+  },
+  {
+    name: 'get-salary-industries',
+    description:
+      'Industries and fields of expertise. Industries available in salary statistics. Requires an employer (manager) account.',
+    method: 'GET',
+    path: '/salary_statistics/dictionaries/salary_industries',
+    inputSchema: {},
+    parameters: {},
+
+    cacheTtl: 86400,
+    cachePerUser: true,
+  },
+  {
+    name: 'get-resume-visibility-employers-list',
+    description:
+      "Searching for employers to add to the visibility list. Finds employers by name to add to a resume's whitelist or blacklist. Requires an applicant account.",
+    method: 'GET',
+    path: '/resumes/{resume_id}/{list_type}/search',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      listType: z
+        .string()
+        .describe(
+          'Visibility list: whitelist (only these employers see the resume) or blacklist (these employers do not)'
+        ),
+      text: z
+        .string()
+        .describe('Search query; supports the HH query language, e.g. "python AND (django OR flask) NOT junior"'),
+      perPage: z.number().int().min(1).max(100).describe('Items per page, 1-100 (default 20)').optional(),
+      page: z.number().int().min(0).describe('Page number, starting from 0').optional(),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      listType: { name: 'list_type', in: 'path' },
+      text: { name: 'text', in: 'query' },
+      perPage: { name: 'per_page', in: 'query' },
+      page: { name: 'page', in: 'query' },
+    },
+
+    paginated: true,
+  },
+  {
+    name: 'get-resume-visibility-list',
+    description:
+      "Getting visibility lists. Lists employers in a resume's whitelist or blacklist. Requires an applicant account.",
+    method: 'GET',
+    path: '/resumes/{resume_id}/{list_type}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      listType: z
+        .string()
+        .describe(
+          'Visibility list: whitelist (only these employers see the resume) or blacklist (these employers do not)'
+        ),
+    },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' }, listType: { name: 'list_type', in: 'path' } },
+  },
+  {
+    name: 'add-resume-visibility-list',
+    description:
+      "Adding employers to the visibility list. Adds employers to a resume's whitelist or blacklist. Requires an applicant account.",
+    method: 'POST',
+    path: '/resumes/{resume_id}/{list_type}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      listType: z
+        .enum(['whitelist', 'blacklist'])
+        .describe(
+          'Visibility list: whitelist (only these employers see the resume) or blacklist (these employers do not)'
+        ),
+      items: z
+        .array(z.object({ id: z.string() }))
+        .min(1)
+        .describe('Employers to add, e.g. [{ "id": "1455" }]; find IDs with get-resume-visibility-employers-list'),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      listType: { name: 'list_type', in: 'path' },
+      items: { name: 'items', in: 'body' },
+    },
+    bodyEncoding: 'json',
+  },
+  {
+    name: 'delete-resume-visibility-list',
+    description:
+      "Clearing the visibility list. Removes all employers from a resume's whitelist or blacklist. Requires an applicant account.",
+    method: 'DELETE',
+    path: '/resumes/{resume_id}/{list_type}',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      listType: z
+        .string()
+        .describe(
+          'Visibility list: whitelist (only these employers see the resume) or blacklist (these employers do not)'
+        ),
+    },
+    parameters: { resumeId: { name: 'resume_id', in: 'path' }, listType: { name: 'list_type', in: 'path' } },
+  },
+  {
+    name: 'delete-employer-from-resume-visibility-list',
+    description:
+      "Removing employers from the visibility list. Removes specific employers from a resume's whitelist or blacklist. Requires an applicant account.",
+    method: 'DELETE',
+    path: '/resumes/{resume_id}/{list_type}/employer',
+    inputSchema: {
+      resumeId: z.string().describe('Resume ID, e.g. from get-mine-resumes'),
+      listType: z
+        .string()
+        .describe(
+          'Visibility list: whitelist (only these employers see the resume) or blacklist (these employers do not)'
+        ),
+      id: z.array(z.string()).min(1).describe('Employer IDs to remove from the list'),
+    },
+    parameters: {
+      resumeId: { name: 'resume_id', in: 'path' },
+      listType: { name: 'list_type', in: 'path' },
+      id: { name: 'id', in: 'query' },
+    },
+  },
+]
+
+// Tools grouped by HH API area; sessions can enable a subset to keep the tool list small
+export const toolsets = {
+  account: [
+    'get-manager-accounts',
+    'authorize',
+    'invalidate-token',
+    'get-current-user-info',
+    'edit-current-user-info',
+    'get-locales-for-resume',
+    'get-locales',
+  ],
+  vacancies: [
+    'get-saved-vacancy-searches',
+    'create-saved-vacancy-search',
+    'get-vacancy-visitors',
+    'get-vacancy',
+    'edit-vacancy',
+    'get-blacklisted-vacancies',
+    'get-vacancies',
+    'publish-vacancy',
+    'get-vacancies-related-to-vacancy',
+    'get-saved-vacancy-search',
+    'update-saved-vacancy-search',
+    'delete-saved-vacancy-search',
+    'get-vacancies-similar-to-vacancy',
+    'get-vacancy-upgrade-list',
+    'get-favorite-vacancies',
+    'add-vacancy-to-blacklisted',
+    'delete-vacancy-from-blacklisted',
+    'get-vacancy-conditions',
+    'get-prolongation-vacancy-info',
+    'vacancy-prolongation',
+    'get-pref-negotiations-order',
+    'put-pref-negotiations-order',
+    'add-vacancy-to-favorite',
+    'delete-vacancy-from-favorite',
+    'get-vacancy-stats',
+    'get-vacancy-draft',
+    'change-vacancy-draft',
+    'delete-vacancy-draft',
+    'publish-vacancy-from-draft',
+    'search-for-vacancy-draft-duplicates',
+    'get-vacancy-draft-list',
+    'create-vacancy-draft',
+    'disable-automatic-vacancy-publication',
+    'get-resumes-by-status',
+    'get-suitable-resumes',
+  ],
+  resumes: [
+    'confirm-phone-in-resume',
+    'get-applicant-phone-info',
+    'send-code-for-verify-phone-in-resume',
+    'read-resume-profile',
+    'update-resume-profile',
+    'create-resume-profile',
+    'get-resume-profile-dictionaries',
+    'get-vacancies-similar-to-resume',
+    'move-saved-resume-search',
+    'get-resume-status',
+    'get-resume-negotiations-history',
+    'get-saved-resume-search',
+    'update-saved-resume-search',
+    'delete-saved-resume-search',
+    'search-for-resumes',
+    'create-resume',
+    'get-mine-resumes',
+    'publish-resume',
+    'get-new-resume-conditions',
+    'get-resume-conditions',
+    'get-resume-view-history',
+    'get-resume',
+    'edit-resume',
+    'delete-resume',
+    'get-resume-creation-availability',
+    'get-saved-resume-searches',
+    'create-saved-resume-search',
+    'get-resume-access-types',
+    'get-resume-visibility-employers-list',
+    'get-resume-visibility-list',
+    'add-resume-visibility-list',
+    'delete-resume-visibility-list',
+    'delete-employer-from-resume-visibility-list',
+  ],
+  negotiations: [
+    'change-negotiation-action',
+    'get-negotiations',
+    'apply-to-vacancy',
+    'get-active-negotiations',
+    'get-negotiation-message-templates',
+    'get-collection-negotiations-list',
+    'invite-applicant-to-vacancy',
+    'get-negotiation-test-results',
+    'edit-negotiation-message',
+    'post-negotiations-topics-read',
+    'hide-active-response',
+    'get-negotiation-item',
+    'put-negotiations-collection-to-next-state',
+    'get-negotiation-messages',
+    'send-negotiation-message',
+  ],
+  employers: [
+    'get-manager-settings',
+    'get-employer-manager-limits',
+    'get-employer-addresses',
+    'get-employer-managers',
+    'add-employer-manager',
+    'get-employer-manager-types',
+    'get-address',
+    'get-employer-manager',
+    'edit-employer-manager',
+    'delete-employer-manager',
+    'get-payable-api-actions',
+    'get-payable-api-method-access',
+    'get-active-vacancy-list',
+    'get-hidden-vacancies',
+    'add-vacancy-to-hidden',
+    'restore-vacancy-from-hidden',
+    'add-vacancy-to-archive',
+    'get-available-vacancy-types',
+    'get-archived-vacancies',
+    'get-negotiations-statistics-manager',
+    'get-negotiations-statistics-employer',
+    'get-tests-dictionary',
+    'get-employer-vacancy-areas',
+    'get-employer-info',
+    'add-employer-to-blacklisted',
+    'delete-employer-from-blacklisted',
+    'search-employer',
+    'get-employer-departments',
+    'get-vacancy-branded-templates-list',
+    'get-blacklisted-employers',
+    'update-applicant-comment',
+    'delete-applicant-comment',
+    'get-applicant-comments-list',
+    'add-applicant-comment',
+    'put-mail-templates-item',
+    'get-mail-templates',
+    'get-clickme-statistics',
+  ],
+  artifacts: [
+    'get-artifacts-portfolio-conditions',
+    'edit-artifact',
+    'delete-artifact',
+    'load-artifact',
+    'get-artifacts-portfolio',
+    'get-artifact-photos-conditions',
+    'get-artifact-photos',
+  ],
+  dictionaries: [
+    'get-positions-suggestions',
+    'get-educational-institutions-suggests',
+    'get-area-leaves-suggests',
+    'get-skill-set-suggests',
+    'get-vacancy-positions-suggests',
+    'get-professional-roles-suggests',
+    'get-resume-search-keywords-suggests',
+    'get-areas-suggests',
+    'get-vacancy-search-keywords',
+    'get-fields-of-study-suggestions',
+    'get-registered-companies-suggests',
+    'get-dictionaries',
+    'get-languages',
+    'get-educational-institutions-dictionary',
+    'get-skills',
+    'get-professional-roles-dictionary',
+    'get-faculties',
+    'get-industries',
+    'get-all-districts',
+    'get-salary-evaluation',
+    'get-metro-stations',
+    'get-metro-stations-in-city',
+    'get-countries',
+    'get-areas',
+    'get-areas-from-specified',
+    'get-salary-employee-levels',
+    'get-salary-salary-areas',
+    'get-salary-professional-areas',
+    'get-salary-industries',
+  ],
+  webhooks: [
+    'change-webhook-subscription',
+    'cancel-webhook-subscription',
+    'get-webhook-subscriptions',
+    'post-webhook-subscription',
+  ],
+} as const
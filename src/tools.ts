@@ -0,0 +1,101 @@
+import type { AxiosRequestConfig } from 'axios'
+import type { ZodRawShape } from 'zod'
+import type { ToolProjection } from './projection.js'
+
+// Where a tool argument goes in the HH request; 'document' arguments carry the whole JSON body
+export interface ToolParameter {
+  name: string
+  in: 'path' | 'query' | 'body' | 'document'
+  binary?: boolean
+}
+
+// An HH endpoint exposed as an MCP tool, generated from openapi/hh.openapi.json by scripts/generate-tools.ts
+export interface ToolDefinition {
+  name: string
+  description: string
+  method: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  path: string
+  inputSchema: ZodRawShape
+  parameters: Record<string, ToolParameter>
+  bodyEncoding?: 'json' | 'form' | 'multipart'
+  // List endpoints with page/per_page; maxDepth is the number of items HH returns at most across pages
+  paginated?: boolean
+  maxDepth?: number
+  // Shape of the HH object returned on success; such tools also return it as structured content
+  outputSchema?: ZodRawShape
+  // Seconds the response may be served from the dictionary cache; set on reference data such as areas
+  cacheTtl?: number
+  // Cached per user token instead of shared, for reference data that only some accounts may read
+  cachePerUser?: boolean
+  // Fields dropped by default and kept by the summary view
+  projection?: ToolProjection
+}
+
+// HH expects form-encoded bodies for most POST endpoints; unset values are dropped and arrays repeated
+export function toFormBody(params: Record<string, unknown>) {
+  const body = new URLSearchParams()
+  for (const [key, value] of Object.entries(params)) {
+    if (value === undefined) {
+      continue
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      body.append(key, String(item))
+    }
+  }
+  return body
+}
+
+// Map tool arguments onto the HH request: path segments, query string and a json, form or multipart body
+export function buildRequest(
+  definition: ToolDefinition,
+  args: Record<string, unknown>,
+  extraBody: Record<string, unknown> = {}
+): AxiosRequestConfig {
+  let url = definition.path
+  const params: Record<string, unknown> = {}
+  const body: Record<string, unknown> = { ...extraBody }
+  let document: unknown
+
+  for (const [argName, parameter] of Object.entries(definition.parameters)) {
+    const value = args[argName]
+    if (value === undefined) {
+      continue
+    }
+
+    if (parameter.in === 'path') {
+      url = url.replace(`{${parameter.name}}`, encodeURIComponent(String(value)))
+    } else if (parameter.in === 'query') {
+      params[parameter.name] = value
+    } else if (parameter.in === 'document') {
+      document = value
+    } else {
+      body[parameter.name] = value
+    }
+  }
+
+  const request: AxiosRequestConfig = { method: definition.method, url, params }
+
+  if (definition.bodyEncoding === 'form') {
+    request.data = toFormBody(body)
+  } else if (definition.bodyEncoding === 'multipart') {
+    // Files arrive base64-encoded, with the file name and content type as separate arguments
+    const formData = new FormData()
+    for (const parameter of Object.values(definition.parameters)) {
+      const value = body[parameter.name]
+      if (parameter.in !== 'body' || value === undefined) {
+        continue
+      }
+      if (parameter.binary) {
+        const file = new Blob([Buffer.from(String(value), 'base64')], { type: args.contentType as string | undefined })
+        formData.append(parameter.name, file, args.fileName as string | undefined)
+      } else {
+        formData.append(parameter.name, String(value))
+      }
+    }
+    request.data = formData
+  } else if (definition.bodyEncoding === 'json') {
+    request.data = document ?? body
+  }
+
+  return request
+}